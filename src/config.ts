@@ -0,0 +1,193 @@
+import "dotenv/config";
+import path from "path";
+import { z } from "zod";
+
+export const CLUSTERS = ["mainnet", "devnet", "localnet"] as const;
+
+export type Cluster = (typeof CLUSTERS)[number];
+
+/**
+ * "strict" rejects the request on any failed metadata check, "warn" lets it
+ * through and reports the failed checks as warnings in the response
+ */
+export const METADATA_VALIDATION_MODES = ["strict", "warn"] as const;
+
+export type MetadataValidationMode =
+  (typeof METADATA_VALIDATION_MODES)[number];
+
+// Where uploaded metadata goes: Arweave through Irys, a local directory
+// served under /uploads, or process memory
+export const UPLOADERS = ["irys", "fs", "memory"] as const;
+
+export type UploaderKind = (typeof UPLOADERS)[number];
+
+const booleanFlag = z
+  .enum(["true", "false"])
+  .default("false")
+  .transform((value) => value === "true");
+
+// Comma separated, e.g. "https://app.example.com,http://localhost:3001"
+const urlList = (fallback: string) =>
+  z
+    .string()
+    .default(fallback)
+    .transform((value) =>
+      value
+        .split(",")
+        .map((url) => url.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string().url()).min(1));
+
+// Files the stores keep their data in, under ./data unless set
+const dataPath = (...segments: string[]) =>
+  z.string().min(1).default(path.join(process.cwd(), "data", ...segments));
+
+const envSchema = z.object({
+  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  CORS_ORIGINS: urlList("http://localhost:3001"),
+  DEFAULT_CLUSTER: z.enum(CLUSTERS).default("mainnet"),
+  // One or more endpoints per cluster, the first is preferred
+  MAINNET_RPC_URL: urlList("https://api.mainnet-beta.solana.com"),
+  DEVNET_RPC_URL: urlList("https://api.devnet.solana.com"),
+  LOCALNET_RPC_URL: urlList("http://127.0.0.1:8899"),
+  // Lets requests name any RPC URL in `rpcEndpoint` instead of a cluster
+  ALLOW_CUSTOM_RPC_ENDPOINT: booleanFlag,
+  // Lets requests sign with a base64 `privateKey` instead of a signerId
+  ALLOW_REQUEST_PRIVATE_KEYS: booleanFlag,
+  // Extra rounds over the endpoint list for reads, writes are not retried
+  RPC_MAX_RETRIES: z.coerce.number().int().min(0).max(10).default(2),
+  RPC_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(250),
+  RPC_HEALTH_CHECK_INTERVAL_MS: z.coerce.number().int().min(0).default(30000),
+  METADATA_VALIDATION_MODE: z.enum(METADATA_VALIDATION_MODES).default("strict"),
+  // Skips API keys entirely, only for local development
+  AUTH_DISABLED: booleanFlag,
+  ADMIN_API_KEY: z.string().min(1).optional(),
+  API_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().min(1).default(60),
+  // Drop mints an API key may hold prepared but unsent across all drops
+  DROP_MAX_OPEN_RESERVATIONS: z.coerce.number().int().min(1).default(10),
+  UPLOADER: z.enum(UPLOADERS).default("irys"),
+  UPLOADS_DIR: dataPath("uploads"),
+  UPLOADS_BASE_URL: z.string().url().optional(), // Defaults to this server
+  IRYS_ADDRESS: z.string().url().optional(),
+  UPLOADER_RPC_ENDPOINT: z.string().url().optional(),
+  // Keystore signer that pays for Irys uploads
+  UPLOADER_SIGNER_ID: z.string().min(1).optional(),
+  UPLOADER_PRIVATE_KEY: z
+    .string()
+    .optional()
+    .refine((value) => value === undefined, {
+      message:
+        "No longer read, load the key as a keystore signer and set " +
+        "UPLOADER_SIGNER_ID",
+    }),
+  API_KEY_STORE_PATH: dataPath("api-keys.json"),
+  DROP_STORE_PATH: dataPath("drops.json"),
+  JOB_STORE_DIR: dataPath("jobs"),
+  REVEAL_STORE_DIR: dataPath("reveals"),
+  SIGNER_AUDIT_LOG: dataPath("audit", "signers.jsonl"),
+});
+
+export interface Config {
+  port: number;
+  corsOrigins: string[];
+  defaultCluster: Cluster;
+  clusters: Record<Cluster, string[]>;
+  allowCustomRpcEndpoint: boolean;
+  allowRequestPrivateKeys: boolean;
+  metadataValidationMode: MetadataValidationMode;
+  auth: {
+    disabled: boolean;
+    adminKey?: string;
+    rateLimitPerMinute: number; // For keys that do not set their own
+  };
+  drops: {
+    maxOpenReservations: number;
+  };
+  uploader: {
+    kind: UploaderKind;
+    directory: string; // Only used by "fs"
+    baseUrl: string; // Only used by "fs"
+    irysAddress?: string;
+    rpcEndpoint?: string; // Cluster for paying Irys, the default if unset
+    signerId?: string;
+  };
+  storage: {
+    apiKeysFile: string;
+    dropsFile: string;
+    jobsDirectory: string;
+    revealsDirectory: string;
+    signerAuditLog: string;
+  };
+  rpc: {
+    maxRetries: number;
+    retryBaseDelayMs: number;
+    healthCheckIntervalMs: number; // 0 turns health checks off
+  };
+}
+
+/**
+ * Reads and validates the server configuration, throwing on the first start
+ * with every invalid variable listed
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join(".")}: ${issue.message}`
+    );
+    throw new Error(`Invalid configuration:\n  ${problems.join("\n  ")}`);
+  }
+
+  const parsed = result.data;
+  return {
+    port: parsed.PORT,
+    corsOrigins: parsed.CORS_ORIGINS,
+    defaultCluster: parsed.DEFAULT_CLUSTER,
+    clusters: {
+      mainnet: parsed.MAINNET_RPC_URL,
+      devnet: parsed.DEVNET_RPC_URL,
+      localnet: parsed.LOCALNET_RPC_URL,
+    },
+    allowCustomRpcEndpoint: parsed.ALLOW_CUSTOM_RPC_ENDPOINT,
+    allowRequestPrivateKeys: parsed.ALLOW_REQUEST_PRIVATE_KEYS,
+    metadataValidationMode: parsed.METADATA_VALIDATION_MODE,
+    auth: {
+      disabled: parsed.AUTH_DISABLED,
+      adminKey: parsed.ADMIN_API_KEY,
+      rateLimitPerMinute: parsed.API_RATE_LIMIT_PER_MINUTE,
+    },
+    drops: {
+      maxOpenReservations: parsed.DROP_MAX_OPEN_RESERVATIONS,
+    },
+    uploader: {
+      kind: parsed.UPLOADER,
+      directory: parsed.UPLOADS_DIR,
+      baseUrl:
+        parsed.UPLOADS_BASE_URL ?? `http://localhost:${parsed.PORT}/uploads`,
+      irysAddress: parsed.IRYS_ADDRESS,
+      rpcEndpoint: parsed.UPLOADER_RPC_ENDPOINT,
+      signerId: parsed.UPLOADER_SIGNER_ID,
+    },
+    storage: {
+      apiKeysFile: parsed.API_KEY_STORE_PATH,
+      dropsFile: parsed.DROP_STORE_PATH,
+      jobsDirectory: parsed.JOB_STORE_DIR,
+      revealsDirectory: parsed.REVEAL_STORE_DIR,
+      signerAuditLog: parsed.SIGNER_AUDIT_LOG,
+    },
+    rpc: {
+      maxRetries: parsed.RPC_MAX_RETRIES,
+      retryBaseDelayMs: parsed.RPC_RETRY_BASE_DELAY_MS,
+      healthCheckIntervalMs: parsed.RPC_HEALTH_CHECK_INTERVAL_MS,
+    },
+  };
+}
+
+export const config = loadConfig();
+
+// Network a request picked, see networkFields in schemas/common.ts
+export interface NetworkFields {
+  cluster?: Cluster;
+  rpcEndpoint?: string;
+}
@@ -0,0 +1,438 @@
+import { Request, Response } from "express";
+import { PublicKey } from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import {
+  signerIdentity,
+  transactionBuilder,
+  TransactionBuilder,
+} from "@metaplex-foundation/umi";
+import {
+  fromWeb3JsInstruction,
+  fromWeb3JsPublicKey,
+} from "@metaplex-foundation/umi-web3js-adapters";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { callerId } from "../middlewares/auth";
+import { buildClientTransaction, createNullSigner } from "../utils/signers";
+import { toBaseUnits } from "../utils/amount";
+import {
+  AirdropRecipient,
+  AirdropRequest,
+  airdropRecipientSchema,
+  MAX_AIRDROP_RECIPIENTS,
+} from "../schemas/airdrop";
+import {
+  ApiError,
+  FieldError,
+  toApiError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { getConnection } from "../utils/rpcPool";
+import { parseCsv } from "../utils/csv";
+import { watchPreparedTransaction } from "../utils/preparedTransactions";
+
+// How long a prepared transaction is followed once handed out, its
+// blockhash has long expired by then
+const CHUNK_WATCH_MS = 3 * 60_000;
+// Leaves time for the last submitted transaction to confirm
+const AIRDROP_DEADLINE_MS = CHUNK_WATCH_MS + 2 * 60_000;
+
+interface AirdropItem {
+  index: number;
+  recipient: string;
+  amount: string; // UI amount as requested
+  baseUnits: string;
+  createsTokenAccount: boolean;
+  transactionIndex: number;
+}
+
+interface AirdropResponse {
+  jobId: string;
+  mint: string;
+  decimals: number;
+  total: string; // Sum of all transfers in base units
+  transactions: string[]; // Sign and send each one through /api/submit
+  items: AirdropItem[];
+}
+
+interface Chunk {
+  builder: TransactionBuilder;
+  indexes: number[];
+  signature?: string;
+  settled?: "confirmed" | "failed";
+  error?: string;
+}
+
+/**
+ * Reads `recipient,amount` rows, a header row is optional
+ */
+function parseRecipientsCsv(csv: string): AirdropRecipient[] {
+  const rows = parseCsv(csv);
+  if (rows[0]?.cells[0].toLowerCase() === "recipient") {
+    rows.shift();
+  }
+
+  const errors: FieldError[] = [];
+  const recipients: AirdropRecipient[] = [];
+  rows.forEach(({ line, cells }) => {
+    const result = airdropRecipientSchema.safeParse({
+      recipient: cells[0],
+      amount: cells[1],
+    });
+    if (result.success) {
+      recipients.push(result.data);
+    } else {
+      result.error.issues.forEach((issue) =>
+        errors.push({
+          path: `csv.${line}.${issue.path.join(".")}`,
+          message: issue.message,
+        })
+      );
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid recipients CSV", errors);
+  }
+  return recipients;
+}
+
+/**
+ * Prepares transfers of a fungible token to many wallets. Missing associated
+ * token accounts are created on the way and transfers are packed into as
+ * few transactions as the size limit allows. The job stays open until
+ * every transaction was confirmed or failed through /api/submit.
+ */
+export async function airdropTokens(
+  req: Request<{}, {}, AirdropRequest>,
+  res: Response<ApiResponse<AirdropResponse>>
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("airdrop", clientId, req.body, callerId(res));
+
+  try {
+    const {
+      mint,
+      publicKey,
+      recipients: listed = [],
+    } = req.body;
+
+    const recipients = req.file
+      ? [...listed, ...parseRecipientsCsv(req.file.buffer.toString("utf8"))]
+      : listed;
+    if (recipients.length === 0) {
+      throw new ValidationError("No recipients given", [
+        { path: "recipients", message: "Provide recipients or a csv file" },
+      ]);
+    }
+    if (recipients.length > MAX_AIRDROP_RECIPIENTS) {
+      throw new ValidationError("Too many recipients", [
+        {
+          path: "recipients",
+          message: `At most ${MAX_AIRDROP_RECIPIENTS} recipients per airdrop`,
+        },
+      ]);
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "airdrop",
+      status: "started",
+      message: `Preparing airdrop to ${recipients.length} recipients`,
+    });
+
+    const connection = getConnection(req.body);
+    const umi = createUmi(connection);
+    const walletKey = new PublicKey(publicKey);
+    const nullSigner = createNullSigner(fromWeb3JsPublicKey(walletKey));
+    umi.use(signerIdentity(nullSigner));
+
+    // Works for both token programs, the mint account owner tells which one
+    const mintKey = new PublicKey(mint);
+    const mintInfo = await connection.getAccountInfo(mintKey);
+    if (!mintInfo) {
+      throw new ValidationError("Mint not found", [
+        { path: "mint", message: "No mint account at this address" },
+      ]);
+    }
+    const programId = mintInfo.owner;
+    if (
+      !programId.equals(TOKEN_PROGRAM_ID) &&
+      !programId.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      throw new ValidationError("Not a token mint", [
+        { path: "mint", message: "Not owned by a token program" },
+      ]);
+    }
+    const { decimals } = await getMint(
+      connection,
+      mintKey,
+      undefined,
+      programId
+    );
+
+    const errors: FieldError[] = [];
+    const amounts = recipients.map(({ amount }, index) => {
+      try {
+        return toBaseUnits(amount, decimals, `recipients.${index}.amount`);
+      } catch (error) {
+        if (error instanceof ValidationError) errors.push(...error.details);
+        return 0n;
+      }
+    });
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid recipient amounts", errors);
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "airdrop",
+      status: "progress",
+      step: "checking_accounts",
+      progress: 20,
+      message: "Checking token accounts",
+    });
+
+    const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+    const source = getAssociatedTokenAddressSync(
+      mintKey,
+      walletKey,
+      true,
+      programId
+    );
+    const balance = await connection
+      .getTokenAccountBalance(source)
+      .then(({ value }) => BigInt(value.amount))
+      .catch(() => 0n);
+    if (balance < total) {
+      throw new ValidationError("Airdrop exceeds the wallet balance", [
+        {
+          path: "recipients",
+          message: `Needs ${total} base units, wallet holds ${balance}`,
+        },
+      ]);
+    }
+
+    const destinations = recipients.map(({ recipient }) =>
+      getAssociatedTokenAddressSync(
+        mintKey,
+        new PublicKey(recipient),
+        true,
+        programId
+      )
+    );
+    // getMultipleAccounts takes at most 100 addresses per call
+    const existing = new Set<string>();
+    for (let start = 0; start < destinations.length; start += 100) {
+      const batch = destinations.slice(start, start + 100);
+      const infos = await connection.getMultipleAccountsInfo(batch);
+      infos.forEach((info, offset) => {
+        if (info) existing.add(batch[offset].toBase58());
+      });
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "airdrop",
+      status: "progress",
+      step: "packing",
+      progress: 40,
+      message: "Packing transfers into transactions",
+    });
+
+    const items: AirdropItem[] = [];
+    const chunks: Chunk[] = [];
+    recipients.forEach(({ recipient, amount }, index) => {
+      const destination = destinations[index];
+      // Only the first transfer to a new account has to create it
+      const createsTokenAccount = !existing.has(destination.toBase58());
+      existing.add(destination.toBase58());
+
+      const instructions = [
+        ...(createsTokenAccount
+          ? [
+              createAssociatedTokenAccountIdempotentInstruction(
+                walletKey,
+                destination,
+                new PublicKey(recipient),
+                mintKey,
+                programId
+              ),
+            ]
+          : []),
+        createTransferCheckedInstruction(
+          source,
+          mintKey,
+          destination,
+          walletKey,
+          amounts[index],
+          decimals,
+          [],
+          programId
+        ),
+      ];
+      const itemBuilder = transactionBuilder(
+        instructions.map((instruction) => ({
+          instruction: fromWeb3JsInstruction(instruction),
+          signers: [nullSigner],
+          bytesCreatedOnChain: 0,
+        }))
+      );
+
+      const last = chunks[chunks.length - 1];
+      const packed = last?.builder.add(itemBuilder);
+      if (last && packed!.fitsInOneTransaction(umi)) {
+        last.builder = packed!;
+        last.indexes.push(index);
+      } else {
+        chunks.push({ builder: itemBuilder, indexes: [index] });
+      }
+
+      items.push({
+        index,
+        recipient,
+        amount,
+        baseUnits: amounts[index].toString(),
+        createsTokenAccount,
+        transactionIndex: chunks.length - 1,
+      });
+    });
+
+    // Chunk outcomes come from /api/submit, the job ends once all are known
+    let deadline: NodeJS.Timeout | undefined;
+    const finish = () => {
+      clearTimeout(deadline);
+      const failed = chunks.filter(({ settled }) => settled === "failed");
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "airdrop",
+        status: "completed",
+        progress: 100,
+        message: `Airdrop finished: ${
+          chunks.length - failed.length
+        } transactions confirmed, ${failed.length} failed`,
+      });
+      completeJob(job.id, {
+        address: mint,
+        items: items.map(({ recipient, transactionIndex }) => ({
+          address: recipient,
+          signature: chunks[transactionIndex].signature,
+          error: chunks[transactionIndex].error,
+        })),
+      });
+    };
+    const settle = (
+      chunkIndex: number,
+      outcome: "confirmed" | "failed",
+      error?: string
+    ) => {
+      const chunk = chunks[chunkIndex];
+      if (chunk.settled) return;
+      chunk.settled = outcome;
+      chunk.error = error;
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "airdrop",
+        status: "progress",
+        message: `Transaction ${chunkIndex + 1} ${outcome}`,
+        item: {
+          index: chunkIndex,
+          status: outcome,
+          signature: chunk.signature,
+          error,
+        },
+      });
+      if (chunks.every(({ settled }) => settled)) finish();
+    };
+
+    const transactions: string[] = [];
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      const transaction = await buildClientTransaction(umi, chunk.builder);
+      transactions.push(transaction);
+      watchPreparedTransaction(
+        umi.transactions.deserialize(Buffer.from(transaction, "base64")),
+        {
+          sent: (signature) => {
+            chunk.signature = signature;
+            sendProgressUpdate(clientId, {
+              jobId: job.id,
+              type: "airdrop",
+              status: "progress",
+              message: `Transaction ${chunkIndex + 1} sent`,
+              item: { index: chunkIndex, status: "sent", signature },
+            });
+          },
+          confirmed: () => settle(chunkIndex, "confirmed"),
+          failed: (error: ApiError) =>
+            settle(chunkIndex, "failed", error.message),
+        },
+        CHUNK_WATCH_MS
+      );
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "airdrop",
+        status: "progress",
+        step: "building",
+        progress: 40 + Math.round(((chunkIndex + 1) / chunks.length) * 60),
+        message: `Transaction ${chunkIndex + 1} of ${chunks.length} prepared`,
+        item: { index: chunkIndex, status: "prepared" },
+      });
+    }
+
+    // Whatever is still open by then failed
+    deadline = setTimeout(() => {
+      chunks.forEach((chunk, chunkIndex) =>
+        settle(
+          chunkIndex,
+          "failed",
+          chunk.signature
+            ? "Not confirmed in time"
+            : "Not submitted through /api/submit in time"
+        )
+      );
+    }, AIRDROP_DEADLINE_MS);
+    deadline.unref();
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "airdrop",
+      status: "progress",
+      step: "awaiting_signatures",
+      progress: 100,
+      message: `Prepared ${recipients.length} transfers in ${
+        chunks.length
+      } transactions`,
+    });
+
+    return sendSuccess<AirdropResponse>(res, {
+      jobId: job.id,
+      mint,
+      decimals,
+      total: total.toString(),
+      transactions,
+      items,
+    });
+  } catch (error) {
+    console.error("Airdrop error:", error);
+    const apiError = toApiError(error);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "airdrop",
+      status: "error",
+      message: `Failed to prepare airdrop: ${apiError.message}`,
+      code: apiError.code,
+    });
+
+    return sendError(res, apiError);
+  }
+}
@@ -0,0 +1,54 @@
+import { Request, Response } from "express";
+import {
+  ApiKey,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../utils/apiKeyStore";
+import { IssueApiKeyRequest } from "../schemas/apiKey";
+import { NotFoundError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+
+// Everything but the hash, which stays on the server
+const toKeyView = ({ hash, ...apiKey }: ApiKey) => apiKey;
+
+/**
+ * Issues a key. The plain key is only ever part of this response.
+ */
+export async function createApiKey(
+  req: Request<{}, {}, IssueApiKeyRequest>,
+  res: Response
+) {
+  try {
+    const { key, apiKey } = issueApiKey(req.body);
+    return sendSuccess(res, { key, apiKey: toKeyView(apiKey) }, 201);
+  } catch (error) {
+    console.error("API key issue error:", error);
+    return sendError(res, error);
+  }
+}
+
+export async function getApiKeys(req: Request, res: Response) {
+  try {
+    return sendSuccess(res, { keys: listApiKeys().map(toKeyView) });
+  } catch (error) {
+    console.error("API key listing error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * Revokes a key for good, requests with it fail from now on
+ */
+export async function deleteApiKey(req: Request, res: Response) {
+  try {
+    const apiKey = revokeApiKey(req.params.id);
+    if (!apiKey) {
+      throw new NotFoundError("API key not found");
+    }
+    return sendSuccess(res, { apiKey: toKeyView(apiKey) });
+  } catch (error) {
+    console.error("API key revoke error:", error);
+    return sendError(res, error);
+  }
+}
@@ -1,11 +1,8 @@
 import { Request, Response } from "express";
-import { Connection, PublicKey } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
 import {
-  generateSigner,
   signerIdentity,
-  Signer,
-  PublicKey as UmiPublicKey,
   transactionBuilder,
 } from "@metaplex-foundation/umi";
 import {
@@ -14,49 +11,50 @@ import {
   TokenStandard,
 } from "@metaplex-foundation/mpl-token-metadata";
 import { fromWeb3JsPublicKey } from "@metaplex-foundation/umi-web3js-adapters";
-import { mplToolbox } from "@metaplex-foundation/mpl-toolbox";
+import {
+  findAssociatedTokenPda,
+  mplToolbox,
+} from "@metaplex-foundation/mpl-toolbox";
 import { sendProgressUpdate } from "../utils/progress";
-
-// Modified request interface - no private key needed
-interface CreateTokenRequest {
-  name: string;
-  uri: string;
-  symbol: string;
-  decimals?: number;
-  initialSupply?: number;
-  publicKey: string; // User's wallet public key
-  rpcEndpoint?: string;
-  clientId: string;
-}
+import { completeJob, createJob } from "../utils/jobStore";
+import { callerId } from "../middlewares/auth";
+import {
+  createNullSigner,
+  partiallySignTransaction,
+  serializeTransaction,
+} from "../utils/signers";
+import {
+  buildToken2022Mint,
+  SPL_TOKEN_2022_PROGRAM_ID,
+  Token2022ExtensionName,
+} from "../utils/token2022";
+import { toBaseUnits } from "../utils/amount";
+import { keystore } from "../utils/keystore";
+import { CreateTokenRequest } from "../schemas/token";
+import { toApiError } from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { getConnection } from "../utils/rpcPool";
+import { simulateBuilder, SimulationResult } from "../utils/simulation";
 
 // Modified response to include transaction
 interface CreateTokenResponse {
-  transaction: string; // Serialized transaction
+  jobId: string;
+  transaction?: string; // Serialized transaction, absent on dry runs
+  simulation?: SimulationResult; // Only on dry runs
   mint: string;
-  success: boolean;
-  message?: string;
+  tokenProgram: "spl" | "token2022";
+  extensions: Token2022ExtensionName[]; // Enabled Token-2022 extensions
 }
 
-// Create a proper null signer
-const createNullSigner = (publicKey: UmiPublicKey): Signer => ({
-  publicKey,
-  signMessage: async () => new Uint8Array(),
-  signTransaction: async () => {
-    throw new Error("Transaction needs to be signed by the client");
-  },
-  signAllTransactions: async () => {
-    throw new Error("Transactions need to be signed by the client");
-  },
-});
-
 /**
  * Modified controller that prepares transaction for client-side signing
  */
 export async function createToken(
   req: Request<{}, {}, CreateTokenRequest>,
-  res: Response<CreateTokenResponse>
+  res: Response<ApiResponse<CreateTokenResponse>>
 ) {
   const clientId = req.body.clientId;
+  const job = createJob("token", clientId, req.body, callerId(res));
 
   try {
     const {
@@ -65,27 +63,21 @@ export async function createToken(
       symbol,
       decimals = 9,
       initialSupply,
+      tokenProgram,
+      extensions = {},
       publicKey,
-      rpcEndpoint = "https://api.mainnet-beta.solana.com",
+      dryRun,
     } = req.body;
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "started",
       message: "Preparing token creation transaction",
     });
 
-    // Validate request body
-    if (!name || !uri || !symbol || !publicKey) {
-      return res.status(400).json({
-        success: false,
-        message: "Missing required fields: name, uri, symbol, or publicKey",
-        transaction: "",
-        mint: "",
-      });
-    }
-
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "progress",
       step: "initialization",
@@ -94,18 +86,24 @@ export async function createToken(
     });
 
     // Create connection and UMI instance
-    const connection = new Connection(rpcEndpoint);
-    const umi = createUmi(connection.rpcEndpoint).use(mplToolbox());
+    const connection = getConnection(req.body);
+    const umi = createUmi(connection).use(mplToolbox());
 
     // Create a proper null signer with the user's public key
     const userPublicKey = fromWeb3JsPublicKey(new PublicKey(publicKey));
     const nullSigner = createNullSigner(userPublicKey);
     umi.use(signerIdentity(nullSigner));
 
+    // Rejected before anything is built when it cannot be represented
+    const supply = initialSupply
+      ? toBaseUnits(initialSupply, decimals, "initialSupply")
+      : 0n;
+
     // Generate mint signer
-    const mint = generateSigner(umi);
+    const mint = keystore.generate(umi, { jobId: job.id, purpose: "mint" });
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "progress",
       step: "building",
@@ -113,8 +111,23 @@ export async function createToken(
       message: "Building transaction",
     });
 
-    // Create transaction builder
-    let builder = transactionBuilder().add(
+    // Token-2022 mints are created with their extensions before the metadata
+    let builder = transactionBuilder();
+    let enabledExtensions: Token2022ExtensionName[] = [];
+    const splTokenProgram =
+      tokenProgram === "token2022" ? SPL_TOKEN_2022_PROGRAM_ID : undefined;
+    if (splTokenProgram) {
+      const token2022Mint = await buildToken2022Mint(umi, connection, {
+        mint,
+        authority: nullSigner,
+        decimals,
+        extensions,
+      });
+      builder = builder.add(token2022Mint.builder);
+      enabledExtensions = token2022Mint.enabled;
+    }
+
+    builder = builder.add(
       createFungible(umi, {
         name,
         uri,
@@ -126,22 +139,63 @@ export async function createToken(
         },
         decimals,
         mint,
+        splTokenProgram,
       })
     );
 
     // Add initial supply if specified
-    if (initialSupply) {
+    if (supply > 0n) {
       builder = builder.add(
         mintV1(umi, {
           mint: mint.publicKey,
           tokenStandard: TokenStandard.Fungible,
           tokenOwner: userPublicKey,
-          amount: BigInt(initialSupply * Math.pow(10, decimals)),
+          token: findAssociatedTokenPda(umi, {
+            mint: mint.publicKey,
+            owner: userPublicKey,
+            tokenProgramId: splTokenProgram,
+          }),
+          splTokenProgram,
+          amount: supply,
         })
       );
     }
 
+    if (dryRun) {
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "token",
+        status: "progress",
+        step: "simulating",
+        progress: 80,
+        message: "Simulating transaction",
+      });
+
+      const simulation = await simulateBuilder(umi, connection, builder);
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "token",
+        status: "completed",
+        progress: 100,
+        message: simulation.success
+          ? "Simulation succeeded"
+          : `Simulation failed: ${simulation.error?.message}`,
+      });
+
+      completeJob(job.id, {});
+
+      return sendSuccess<CreateTokenResponse>(res, {
+        jobId: job.id,
+        simulation,
+        mint: mint.publicKey.toString(),
+        tokenProgram,
+        extensions: enabledExtensions,
+      });
+    }
+
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "progress",
       step: "finalizing",
@@ -162,40 +216,43 @@ export async function createToken(
       .setBlockhash(latestBlockhash.blockhash)
       .build(context);
 
+    // The mint keypair only lives on the server, so it signs here
+    const signedTransaction = await partiallySignTransaction(transaction, [
+      mint,
+    ]);
+
     // Serialize the transaction
-    // const serializedTransaction = JSON.stringify(transaction);
-    const serializedTransaction = umi.transactions.serialize(transaction);
-    const base64Transaction = Buffer.from(serializedTransaction).toString(
-      "base64"
-    );2
+    const base64Transaction = serializeTransaction(umi, signedTransaction);
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "completed",
       progress: 100,
       message: "Transaction prepared successfully",
     });
 
-    return res.status(200).json({
-      success: true,
+    completeJob(job.id, { address: mint.publicKey.toString() });
+
+    return sendSuccess<CreateTokenResponse>(res, {
+      jobId: job.id,
       transaction: base64Transaction,
       mint: mint.publicKey.toString(),
-      message: "Transaction prepared successfully",
+      tokenProgram,
+      extensions: enabledExtensions,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error in createToken:", error);
+    const apiError = toApiError(error);
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "token",
       status: "error",
-      message: `Failed to prepare transaction: ${error.message}`,
+      message: `Failed to prepare transaction: ${apiError.message}`,
+      code: apiError.code,
     });
 
-    return res.status(500).json({
-      success: false,
-      message: `Failed to prepare transaction: ${error.message}`,
-      transaction: "",
-      mint: "",
-    });
+    return sendError(res, apiError);
   }
 }
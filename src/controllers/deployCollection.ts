@@ -1,51 +1,30 @@
 import { Request, Response } from "express";
-import {
-  generateSigner,
-  keypairIdentity,
-  publicKey,
-} from "@metaplex-foundation/umi";
+import { publicKey, signerIdentity } from "@metaplex-foundation/umi";
 import {
   createCollection,
   mplCore,
   ruleSet,
 } from "@metaplex-foundation/mpl-core";
-import {
-  fromWeb3JsKeypair,
-  toWeb3JsPublicKey,
-} from "@metaplex-foundation/umi-web3js-adapters";
-import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
-import { Connection, Keypair } from "@solana/web3.js";
+import { toWeb3JsPublicKey } from "@metaplex-foundation/umi-web3js-adapters";
+import bs58 from "bs58";
 import { sendProgressUpdate } from "../utils/progress";
-
-// Define the creator interface
-interface Creator {
-  address: string;
-  percentage: number;
-}
-
-// Define the request body interface
-interface CollectionRequestBody {
-  name: string;
-  uri: string;
-  royaltyBasisPoints?: number;
-  creators?: Creator[];
-  privateKey: string; // base64 encoded private key
-  rpcEndpoint?: string;
-  clientId: string;
-}
-
-// Helper function to get wallet keypair from base64 private key
-function getWalletKeypair(privateKey: string): Keypair {
-  try {
-    const privateKeyBytes = Buffer.from(privateKey, "base64");
-    return Keypair.fromSecretKey(privateKeyBytes);
-  } catch (error) {
-    throw new Error("Invalid private key format. Must be base64 encoded.");
-  }
-}
+import { completeJob, createJob } from "../utils/jobStore";
+import {
+  partiallySignTransaction,
+  serializeTransaction,
+} from "../utils/signers";
+import { keystore, resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import { CollectionRequestBody, Creator } from "../schemas/collection";
+import { toApiError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi, getConnection } from "../utils/rpcPool";
+import { simulateBuilder } from "../utils/simulation";
+import { toCollectionPlugins } from "../utils/corePlugins";
 
 export async function deployCollection(req: Request, res: Response) {
   const clientId = req.body.clientId;
+  const job = createJob("collection", clientId, req.body, callerId(res));
 
   try {
     const {
@@ -53,8 +32,11 @@ export async function deployCollection(req: Request, res: Response) {
       uri,
       royaltyBasisPoints,
       creators,
+      plugins = [],
+      signerId,
       privateKey,
-      rpcEndpoint = "https://api.mainnet-beta.solana.com",
+      publicKey: walletPublicKey,
+      dryRun,
     }: CollectionRequestBody = req.body;
     console.log("Received request body:", {
       ...req.body,
@@ -62,59 +44,45 @@ export async function deployCollection(req: Request, res: Response) {
     });
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "started",
       message: "Starting collection deployment process",
     });
 
-    // Validation progress
-    sendProgressUpdate(clientId, {
-      type: "collection",
-      status: "progress",
-      step: "validation",
-      progress: 20,
-      message: "Validating input parameters",
-    });
-
-    // Validate required fields
-    if (!name || !uri || !privateKey) {
-      return res
-        .status(400)
-        .json({ error: "Missing required fields: name, uri, or privateKey" });
-    }
-
     // Wallet initialization progress
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "progress",
       step: "wallet_init",
       progress: 40,
       message: "Initializing wallet",
     });
-    // Get wallet keypair from provided base64 private key
-    let walletKeypair: Keypair;
-    try {
-      walletKeypair = getWalletKeypair(privateKey);
-    } catch (error: any) {
-      return res.status(400).json({
-        error: error.message,
-      });
-    }
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "progress",
       step: "connection",
       progress: 60,
       message: "Setting up blockchain connection",
     });
-    const connection = new Connection(rpcEndpoint);
+    // Initialize Umi on the shared connection of the requested cluster
+    const umi = createRpcUmi(req.body).use(mplCore());
 
-    // Initialize Umi
-    const umi = createUmi(connection.rpcEndpoint).use(mplCore());
-    umi.use(keypairIdentity(fromWeb3JsKeypair(walletKeypair)));
+    // Without a server-side signer the transaction is returned for the wallet
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId, privateKey, publicKey: walletPublicKey },
+      signerAccess(res),
+      job.id
+    );
+    const authority = wallet.signer.publicKey;
+    umi.use(signerIdentity(wallet.signer));
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "progress",
       step: "preparation",
@@ -123,7 +91,10 @@ export async function deployCollection(req: Request, res: Response) {
     });
 
     // Generate collection signer
-    const collectionSigner = generateSigner(umi);
+    const collectionSigner = keystore.generate(umi, {
+      jobId: job.id,
+      purpose: "collection",
+    });
 
     // Format creators if provided
     const formattedCreators = creators?.map((creator: Creator) => ({
@@ -131,12 +102,13 @@ export async function deployCollection(req: Request, res: Response) {
       percentage: creator.percentage,
     })) || [
       {
-        address: publicKey(walletKeypair.publicKey.toString()),
+        address: authority,
         percentage: 100,
       },
     ];
 
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "progress",
       step: "deployment",
@@ -144,46 +116,112 @@ export async function deployCollection(req: Request, res: Response) {
       message: "Deploying collection to blockchain",
     });
 
+    // Requested plugins, with the default royalties unless they set their own
+    const collectionPlugins = toCollectionPlugins(plugins);
+    if (!plugins.some(({ type }) => type === "Royalties")) {
+      collectionPlugins.unshift({
+        type: "Royalties",
+        basisPoints: royaltyBasisPoints ?? 500,
+        creators: formattedCreators,
+        ruleSet: ruleSet("None"),
+      });
+    }
+
     // Create collection
-    const tx = await createCollection(umi, {
+    const builder = createCollection(umi, {
       collection: collectionSigner,
       name: name,
       uri: uri,
-      plugins: [
-        {
-          type: "Royalties",
-          basisPoints: royaltyBasisPoints || 500,
-          creators: formattedCreators,
-          ruleSet: ruleSet("None"),
-        },
-      ],
-    }).sendAndConfirm(umi);
+      plugins: collectionPlugins,
+    });
+
+    const collectionAddress = toWeb3JsPublicKey(
+      collectionSigner.publicKey
+    ).toString();
+
+    // Nothing is signed or sent, the simulation shows what would happen
+    if (dryRun) {
+      const simulation = await simulateBuilder(
+        umi,
+        getConnection(req.body),
+        builder
+      );
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "collection",
+        status: "completed",
+        progress: 100,
+        message: simulation.success
+          ? "Simulation succeeded"
+          : `Simulation failed: ${simulation.error?.message}`,
+      });
+
+      completeJob(job.id, {});
+
+      return sendSuccess(res, {
+        jobId: job.id,
+        collectionAddress,
+        simulation,
+      });
+    }
+
+    if (!wallet.serverSigned) {
+      // Only the collection signer is added, the wallet signs as payer
+      const latestBlockhash = await umi.rpc.getLatestBlockhash();
+      const transaction = await partiallySignTransaction(
+        builder.setBlockhash(latestBlockhash.blockhash).build(umi),
+        [collectionSigner]
+      );
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "collection",
+        status: "completed",
+        progress: 100,
+        message: "Transaction prepared successfully",
+      });
+
+      completeJob(job.id, { address: collectionAddress });
+
+      return sendSuccess(res, {
+        jobId: job.id,
+        collectionAddress,
+        transaction: serializeTransaction(umi, transaction),
+      });
+    }
+
+    const tx = await builder.sendAndConfirm(umi);
 
     // Success progress update
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "completed",
       progress: 100,
       message: "Collection deployed successfully",
     });
 
-    return res.status(200).json({
-      collectionAddress: toWeb3JsPublicKey(
-        collectionSigner.publicKey
-      ).toString(),
-      signature: tx.signature.toString(),
+    const signature = bs58.encode(tx.signature);
+    completeJob(job.id, { address: collectionAddress, signature });
+
+    return sendSuccess(res, {
+      jobId: job.id,
+      collectionAddress,
+      signature,
     });
-  } catch (error: any) {
+  } catch (error) {
+    const apiError = toApiError(error);
     // Error progress update
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "collection",
       status: "error",
-      message: `Collection deployment failed: ${error.message}`,
+      message: `Collection deployment failed: ${apiError.message}`,
+      code: apiError.code,
     });
     console.error("Collection deployment error:", error);
-    return res
-      .status(500)
-      .json({ error: `Collection deployment failed: ${error.message}` });
+    return sendError(res, apiError);
   }
 }
 
@@ -197,13 +235,31 @@ export async function deployCollection(req: Request, res: Response) {
  * {
  *   "name": "Your Collection Name",
  *   "uri": "https://arweave.net/your-metadata-uri",
- *   "privateKey": "your-base64-encoded-private-key"
+ *   "signerId": "treasury"  // a signer the server loaded at startup
  * }
  *
+ *    Or, to sign with a wallet instead of a server signer:
+ * {
+ *   "name": "Your Collection Name",
+ *   "uri": "https://arweave.net/your-metadata-uri",
+ *   "publicKey": "your-wallet-address"
+ * }
+ *    The response then contains a base64 "transaction" already signed by the
+ *    collection keypair, which the wallet signs and submits.
+ *
+ *    Signers are loaded from the environment, see src/utils/keystore.ts.
+ *    A base64 "privateKey" is only accepted with
+ *    ALLOW_REQUEST_PRIVATE_KEYS=true.
+ *
  * 3. Optional Parameters:
  * {
  *   "royaltyBasisPoints": 500,  // 5% royalty (500 basis points)
- *   "rpcEndpoint": "https://api.mainnet-beta.solana.com",  // default if not provided
+ *   "dryRun": true,  // simulate only, returns logs, compute units and cost
+ *   "plugins": [  // see src/schemas/plugins.ts
+ *     { "type": "Attributes", "attributes": [{ "key": "season", "value": "1" }] },
+ *     { "type": "PermanentFreezeDelegate", "authority": { "type": "None" } }
+ *   ],
+ *   "cluster": "devnet",  // mainnet, devnet or localnet, DEFAULT_CLUSTER if not provided
  *   "creators": [
  *     {
  *       "address": "creator-wallet-address",
@@ -212,7 +268,7 @@ export async function deployCollection(req: Request, res: Response) {
  *   ]
  * }
  *
- * 4. To convert your private key to base64:
+ * 4. To convert your private key to base64, when posted keys are enabled:
  * If you have a JSON keypair file:
  * ```typescript
  * const fs = require('fs');
@@ -234,9 +290,9 @@ export async function deployCollection(req: Request, res: Response) {
  *   -d '{
  *     "name": "Test Collection",
  *     "uri": "https://arweave.net/your-metadata",
- *     "privateKey": "your-base64-private-key",
+ *     "signerId": "treasury",
  *     "royaltyBasisPoints": 500,
- *     "rpcEndpoint": "https://api.mainnet-beta.solana.com",
+ *     "cluster": "devnet",
  *     "creators": [
  *       {
  *         "address": "creator-wallet-address",
@@ -248,19 +304,38 @@ export async function deployCollection(req: Request, res: Response) {
  *
  * 6. Successful Response Format:
  * {
- *   "collectionAddress": "collection-address-here",
- *   "signature": "transaction-signature-here"
+ *   "success": true,
+ *   "data": {
+ *     "jobId": "job-id-for-/api/jobs/:id",
+ *     "collectionAddress": "collection-address-here",
+ *     "signature": "transaction-signature-here"
+ *   },
+ *   "error": null
  * }
+ *    With "publicKey" instead of "signerId", "data" holds
+ *    "transaction": "base64-partially-signed-transaction" instead of
+ *    "signature".
  *
  * 7. Error Response Format:
  * {
- *   "error": "Error message here"
+ *   "success": false,
+ *   "data": null,
+ *   "error": {
+ *     "code": "VALIDATION_ERROR",
+ *     "message": "Error message here",
+ *     "details": [{ "path": "royaltyBasisPoints", "message": "..." }]
+ *   }
  * }
  *
  * 8. Common Error Cases:
- * - 400: Missing required fields (name, uri, or privateKey)
- * - 400: Invalid private key format (must be base64 encoded)
- * - 500: Collection deployment failed (network issues, etc.)
+ * - 400 VALIDATION_ERROR: Invalid request body, "details" lists every
+ *        failing field (missing name/uri, no signerId or publicKey,
+ *        unknown signerId, privateKey while disabled,
+ *        royaltyBasisPoints over 10000, creator percentages not adding up
+ *        to 100, ...)
+ * - 402 INSUFFICIENT_FUNDS: The paying wallet cannot cover fees and rent
+ * - 503 RPC_UNAVAILABLE: The RPC endpoint could not be reached
+ * - 500 INTERNAL_ERROR: Collection deployment failed for another reason
  *
  * Note: Make sure to keep your private key secure and never expose it in client-side code.
  * Best practice is to handle the private key securely on the server side.
@@ -0,0 +1,550 @@
+import { Request, Response } from "express";
+import { randomBytes } from "crypto";
+import bs58 from "bs58";
+import {
+  lamports,
+  publicKey,
+  signerIdentity,
+  transactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  create,
+  fetchCollection,
+  mplCore,
+} from "@metaplex-foundation/mpl-core";
+import { mplToolbox, transferSol } from "@metaplex-foundation/mpl-toolbox";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { buildClientTransaction, createNullSigner } from "../utils/signers";
+import { keystore } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import { verifyMerkleProof } from "../utils/merkle";
+import { toBaseUnits } from "../utils/amount";
+import {
+  Drop,
+  dropSupply,
+  findDrop,
+  openReservations,
+  releaseDropMint,
+  reserveDropMint,
+  saveDropConfig,
+  settleDropReservations,
+  walletMints,
+} from "../utils/dropStore";
+import {
+  DropChallengeRequest,
+  DropConfigRequest,
+  DropMintRequest,
+} from "../schemas/drop";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  toApiError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi } from "../utils/rpcPool";
+import { config } from "../config";
+
+const SOL_DECIMALS = 9;
+// Outlives the blockhash of the transaction, so a reservation that expired
+// unsent can no longer land
+const RESERVATION_TTL_MS = 2 * 60 * 1000;
+const MAX_SETTLED_PER_REQUEST = 100; // One getMultipleAccounts call
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Nonces buyers sign to prove they hold the wallet, single use and in memory
+// so they reset on restart
+interface DropChallenge {
+  collection: string;
+  buyer: string;
+  message: string;
+  expiresAt: number;
+}
+
+const challenges = new Map<string, DropChallenge>();
+
+type DropPhase = "upcoming" | "allowlist" | "public" | "ended";
+
+interface DropView {
+  collection: string;
+  name: string;
+  uri: string;
+  treasury: string;
+  priceLamports: string;
+  allowlistPriceLamports?: string;
+  startsAt: string;
+  endsAt?: string;
+  allowlist?: { merkleRoot: string; endsAt: string };
+  phase: DropPhase;
+  maxSupply: number;
+  minted: number; // Seen on chain
+  reserved: number; // Prepared for buyers who may still send them
+  remaining: number;
+  perWalletLimit?: number;
+}
+
+interface DropChallengeResponse {
+  nonce: string;
+  message: string; // Signed by the buyer's wallet, sent back with the nonce
+  expiresAt: string;
+}
+
+interface DropMintResponse {
+  jobId: string;
+  asset: string;
+  number: number;
+  phase: DropPhase;
+  priceLamports: string;
+  transaction: string; // Co-signed by the server, the buyer signs last
+  expiresAt: string; // The reserved spot is freed if it has not landed
+}
+
+const dropPhase = (drop: Drop, now = Date.now()): DropPhase => {
+  if (now < Date.parse(drop.startsAt)) return "upcoming";
+  if (drop.endsAt && now >= Date.parse(drop.endsAt)) return "ended";
+  if (drop.allowlist && now < Date.parse(drop.allowlist.endsAt)) {
+    return "allowlist";
+  }
+  return "public";
+};
+
+const toDropView = (drop: Drop): DropView => ({
+  collection: drop.collection,
+  name: drop.name,
+  uri: drop.uri,
+  treasury: drop.treasury,
+  priceLamports: drop.priceLamports,
+  allowlistPriceLamports: drop.allowlist?.priceLamports,
+  startsAt: drop.startsAt,
+  endsAt: drop.endsAt,
+  allowlist: drop.allowlist && {
+    merkleRoot: drop.allowlist.merkleRoot,
+    endsAt: drop.allowlist.endsAt,
+  },
+  phase: dropPhase(drop),
+  maxSupply: drop.maxSupply,
+  minted: drop.minted,
+  reserved: drop.reservations.length,
+  remaining: drop.maxSupply - dropSupply(drop),
+  perWalletLimit: drop.perWalletLimit,
+});
+
+const challengeMessage = (
+  collection: string,
+  buyer: string,
+  nonce: string,
+  expiresAt: string
+) =>
+  `Mint from drop ${collection} as ${buyer}\n` +
+  `Nonce: ${nonce}\nExpires: ${expiresAt}`;
+
+/**
+ * Takes the buyer's challenge and checks its signature, so spots are only
+ * reserved for wallets whose owner asked for them
+ */
+function verifyBuyer(
+  umi: Umi,
+  collection: string,
+  { buyer, nonce, signature }: DropMintRequest
+) {
+  const challenge = challenges.get(nonce);
+  challenges.delete(nonce);
+  if (
+    !challenge ||
+    challenge.expiresAt <= Date.now() ||
+    challenge.collection !== collection ||
+    challenge.buyer !== buyer
+  ) {
+    throw new ForbiddenError(
+      "Unknown or expired nonce, request a new challenge"
+    );
+  }
+  const signed = umi.eddsa.verify(
+    new TextEncoder().encode(challenge.message),
+    bs58.decode(signature),
+    publicKey(buyer)
+  );
+  if (!signed) {
+    throw new ForbiddenError("Signature does not match the buyer");
+  }
+}
+
+/**
+ * Counts expired reservations whose asset exists on chain as mints and
+ * frees the others
+ */
+async function settleExpiredReservations(umi: Umi, drop: Drop) {
+  const expired = drop.reservations
+    .filter((reservation) => Date.parse(reservation.expiresAt) <= Date.now())
+    .slice(0, MAX_SETTLED_PER_REQUEST)
+    .map((reservation) => reservation.asset);
+  if (expired.length === 0) return;
+
+  const accounts = await umi.rpc.getAccounts(
+    expired.map((asset) => publicKey(asset))
+  );
+  const landed = new Set(
+    accounts
+      .filter((account) => account.exists)
+      .map((account) => account.publicKey.toString())
+  );
+  settleDropReservations(drop.collection, expired, landed);
+}
+
+/**
+ * Creates or replaces the drop of a collection. The keystore signer has to
+ * be the collection's update authority, it co-signs every buyer's mint.
+ * Counters of mints made so far are kept when the drop is replaced.
+ */
+export async function configureDrop(
+  req: Request<{}, {}, DropConfigRequest>,
+  res: Response<ApiResponse<DropView>>
+) {
+  try {
+    const {
+      collection,
+      signerId,
+      treasury,
+      price,
+      name,
+      uri,
+      startsAt,
+      endsAt,
+      maxSupply,
+      perWalletLimit,
+      allowlist,
+      cluster,
+      rpcEndpoint,
+    } = req.body;
+
+    const umi = createRpcUmi(req.body).use(mplCore());
+    const authority = keystore.getSigner(umi, signerId, signerAccess(res), {
+      purpose: "drop authority",
+    });
+    const account = await fetchCollection(umi, publicKey(collection));
+    if (account.updateAuthority !== authority.publicKey) {
+      throw new ValidationError(
+        "Signer is not the update authority of the collection",
+        [{ path: "signerId", message: "Not the collection's authority" }]
+      );
+    }
+
+    // A replaced drop keeps its counters, the new supply has to cover them
+    const existing = findDrop(collection);
+    if (existing && maxSupply < dropSupply(existing)) {
+      throw new ValidationError("Max supply is below the mints made", [
+        {
+          path: "maxSupply",
+          message: `At least ${dropSupply(existing)} are minted or reserved`,
+        },
+      ]);
+    }
+
+    const drop = saveDropConfig({
+      collection,
+      network: { cluster, rpcEndpoint },
+      signerId,
+      treasury,
+      priceLamports: toBaseUnits(price, SOL_DECIMALS, "price").toString(),
+      name,
+      uri,
+      startsAt,
+      endsAt,
+      maxSupply,
+      perWalletLimit,
+      allowlist: allowlist && {
+        merkleRoot: allowlist.merkleRoot.toLowerCase(),
+        endsAt: allowlist.endsAt,
+        priceLamports:
+          allowlist.price === undefined
+            ? undefined
+            : toBaseUnits(
+                allowlist.price,
+                SOL_DECIMALS,
+                "allowlist.price"
+              ).toString(),
+      },
+    });
+
+    return sendSuccess(res, toDropView(drop));
+  } catch (error) {
+    console.error("Drop configuration error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * Public state of a drop: phase, prices and how much supply is left
+ */
+export async function getDrop(
+  req: Request,
+  res: Response<ApiResponse<DropView>>
+) {
+  try {
+    const drop = findDrop(req.params.collection);
+    if (!drop) {
+      throw new NotFoundError("No drop for this collection");
+    }
+
+    await settleExpiredReservations(createRpcUmi(drop.network), drop);
+
+    return sendSuccess(res, toDropView(findDrop(drop.collection)!));
+  } catch (error) {
+    console.error("Drop lookup error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * Issues a nonce for the buyer's wallet to sign before minting from a drop
+ */
+export async function createDropChallenge(
+  req: Request,
+  res: Response<ApiResponse<DropChallengeResponse>>
+) {
+  try {
+    const { collection } = req.params;
+    const { buyer }: DropChallengeRequest = req.body;
+    if (!findDrop(collection)) {
+      throw new NotFoundError("No drop for this collection");
+    }
+
+    const now = Date.now();
+    for (const [nonce, challenge] of challenges) {
+      if (challenge.expiresAt <= now) challenges.delete(nonce);
+    }
+
+    const nonce = randomBytes(16).toString("hex");
+    const expiresAt = now + CHALLENGE_TTL_MS;
+    const expiresAtIso = new Date(expiresAt).toISOString();
+    const message = challengeMessage(collection, buyer, nonce, expiresAtIso);
+    challenges.set(nonce, { collection, buyer, message, expiresAt });
+
+    return sendSuccess(res, { nonce, message, expiresAt: expiresAtIso });
+  } catch (error) {
+    console.error("Drop challenge error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * Prepares a buyer's mint from a drop. The buyer first signs a challenge
+ * from createDropChallenge. Only when every rule passes is a
+ * spot reserved and a transaction returned in which the buyer pays the
+ * price, fees and rent, and the server has already signed as collection
+ * authority.
+ */
+export async function mintFromDrop(
+  req: Request,
+  res: Response<ApiResponse<DropMintResponse>>
+) {
+  const { collection } = req.params;
+  const { buyer, proof, clientId }: DropMintRequest = req.body;
+  const job = createJob(
+    "nft",
+    clientId,
+    { ...req.body, collection },
+    callerId(res)
+  );
+
+  try {
+    const drop = findDrop(collection);
+    if (!drop) {
+      throw new NotFoundError("No drop for this collection");
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "started",
+      message: "Checking drop rules",
+    });
+
+    const umi = createRpcUmi(drop.network).use(mplCore()).use(mplToolbox());
+    verifyBuyer(umi, collection, req.body);
+    await settleExpiredReservations(umi, drop);
+
+    const phase = dropPhase(drop);
+    if (phase === "upcoming") {
+      throw new ForbiddenError(`Drop starts at ${drop.startsAt}`);
+    }
+    if (phase === "ended") {
+      throw new ForbiddenError("Drop has ended");
+    }
+
+    let priceLamports = BigInt(drop.priceLamports);
+    if (phase === "allowlist") {
+      const { merkleRoot, priceLamports: allowlistPrice } = drop.allowlist!;
+      if (!proof || !verifyMerkleProof(buyer, proof, merkleRoot)) {
+        throw new ForbiddenError("Wallet is not on the allowlist");
+      }
+      priceLamports = BigInt(allowlistPrice ?? drop.priceLamports);
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "progress",
+      step: "collection_verification",
+      progress: 40,
+      message: "Fetching collection",
+    });
+
+    // The buyer's key needs no access to it, the configuring key had it
+    const authority = keystore.getSigner(umi, drop.signerId, "all", {
+      jobId: job.id,
+      purpose: "drop authority",
+    });
+    const buyerSigner = createNullSigner(publicKey(buyer));
+    umi.use(signerIdentity(buyerSigner));
+    const collectionAccount = await fetchCollection(
+      umi,
+      publicKey(collection)
+    );
+    const assetSigner = keystore.generate(umi, {
+      jobId: job.id,
+      purpose: "asset",
+    });
+    const asset = assetSigner.publicKey.toString();
+
+    // Checked and reserved without awaiting in between, so concurrent buyers
+    // cannot both take the last spot
+    const caller = callerId(res) ?? "anonymous";
+    const { maxOpenReservations } = config.drops;
+    if (openReservations(caller) >= maxOpenReservations) {
+      throw new ForbiddenError(
+        `API key holds ${maxOpenReservations} unsent mints, send or let ` +
+          "them expire first"
+      );
+    }
+    const current = findDrop(collection)!;
+    if (dropSupply(current) >= current.maxSupply) {
+      throw new ConflictError("Drop is sold out");
+    }
+    if (walletMints(current, buyer) >= (current.perWalletLimit ?? Infinity)) {
+      throw new ForbiddenError(
+        `Wallet has reached the limit of ${current.perWalletLimit} mints`
+      );
+    }
+    const reservation = reserveDropMint(
+      collection,
+      buyer,
+      caller,
+      asset,
+      new Date(Date.now() + RESERVATION_TTL_MS)
+    )!;
+
+    let transaction: string;
+    try {
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "nft",
+        status: "progress",
+        step: "building",
+        progress: 70,
+        message: "Building transaction",
+      });
+
+      let builder = transactionBuilder();
+      if (priceLamports > 0n) {
+        builder = builder.add(
+          transferSol(umi, {
+            source: buyerSigner,
+            destination: publicKey(drop.treasury),
+            amount: lamports(priceLamports),
+          })
+        );
+      }
+      builder = builder.add(
+        create(umi, {
+          asset: assetSigner,
+          collection: collectionAccount,
+          name: `${drop.name} #${reservation.number}`,
+          uri: drop.uri,
+          owner: buyerSigner.publicKey,
+          authority,
+          payer: buyerSigner,
+        })
+      );
+
+      // The buyer's signature is the only one missing
+      transaction = await buildClientTransaction(umi, builder, [
+        assetSigner,
+        authority,
+      ]);
+    } catch (error) {
+      releaseDropMint(collection, asset);
+      throw error;
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "completed",
+      progress: 100,
+      message: "Transaction prepared successfully",
+    });
+
+    completeJob(job.id, { address: asset });
+
+    return sendSuccess<DropMintResponse>(res, {
+      jobId: job.id,
+      asset,
+      number: reservation.number,
+      phase,
+      priceLamports: priceLamports.toString(),
+      transaction,
+      expiresAt: reservation.expiresAt,
+    });
+  } catch (error) {
+    const apiError = toApiError(error);
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "error",
+      message: `Drop mint failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+    console.error("Drop mint error:", error);
+    return sendError(res, apiError);
+  }
+}
+
+// Example request bodies
+/*
+POST /drops
+{
+  "cluster": "mainnet",
+  "collection": "EJRG9dgrFhKwMbdr1zPx77hLoq2gG1sxD8wW5nWDNHwR",
+  "signerId": "treasury",
+  "treasury": "D4ScX2jf2nkb8ovbFfB8zorpnKrLTXcAXzsc2PZxK92U",
+  "price": "0.5",
+  "name": "My NFT",
+  "uri": "https://arweave.net/placeholder-metadata-uri",
+  "startsAt": "2026-11-01T16:00:00Z",
+  "maxSupply": 1000,
+  "perWalletLimit": 3,
+  "allowlist": {
+    "merkleRoot": "<root printed by npm run allowlist:create>",
+    "endsAt": "2026-11-01T18:00:00Z",
+    "price": "0.3"
+  }
+}
+
+POST /drops/:collection/challenge
+{
+  "buyer": "D4ScX2jf2nkb8ovbFfB8zorpnKrLTXcAXzsc2PZxK92U"
+}
+
+POST /drops/:collection/mint
+{
+  "buyer": "D4ScX2jf2nkb8ovbFfB8zorpnKrLTXcAXzsc2PZxK92U",
+  "proof": ["<hex node>", "<hex node>"],
+  "nonce": "<nonce from the challenge>",
+  "signature": "<base58 signature of the challenge message by the buyer>",
+  "clientId": "buyer-session"
+}
+*/
@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import {
+  getJob as findJob,
+  Job,
+  listJobs as findJobs,
+} from "../utils/jobStore";
+import { callerId, seesAllJobs } from "../middlewares/auth";
+import { NotFoundError, ValidationError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+
+// Jobs of other API keys look like they do not exist
+const ownsJob = (res: Response, job: Job) =>
+  seesAllJobs(res) || job.owner === callerId(res);
+
+/**
+ * Look up a single job with its full progress history
+ */
+export async function getJob(req: Request, res: Response) {
+  try {
+    const job = await findJob(req.params.id);
+    if (!job || !ownsJob(res, job)) {
+      throw new NotFoundError("Job not found");
+    }
+    return sendSuccess(res, job);
+  } catch (error) {
+    console.error("Job lookup error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * List every job a client started with the caller's API key, oldest first
+ */
+export async function listJobs(req: Request, res: Response) {
+  const clientId = req.query.clientId;
+
+  try {
+    if (typeof clientId !== "string" || !clientId) {
+      throw new ValidationError("clientId query parameter is required", [
+        { path: "clientId", message: "Required" },
+      ]);
+    }
+
+    const jobs = (await findJobs(clientId)).filter((job) =>
+      ownsJob(res, job)
+    );
+    return sendSuccess(res, { jobs });
+  } catch (error) {
+    console.error("Job listing error:", error);
+    return sendError(res, error);
+  }
+}
@@ -0,0 +1,310 @@
+import { Request, Response } from "express";
+import {
+  publicKey,
+  signerIdentity,
+  Signer,
+  TransactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  AssetV1,
+  burn,
+  collectionAddress,
+  CollectionV1,
+  fetchAsset,
+  fetchCollection,
+  mplCore,
+  transfer,
+  update,
+  updateAuthority,
+} from "@metaplex-foundation/mpl-core";
+import bs58 from "bs58";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { buildClientTransaction } from "../utils/signers";
+import { resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import {
+  AssetManagementRequest,
+  BurnAssetRequest,
+  MoveAssetRequest,
+  TransferAssetRequest,
+  UpdateAssetRequest,
+} from "../schemas/asset";
+import { toApiError, ValidationError } from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi } from "../utils/rpcPool";
+
+interface ManageAssetResponse {
+  jobId: string;
+  asset: string;
+  transaction?: string; // Only when the wallet behind publicKey signs
+  signature?: string; // Only when signed and sent on the server
+}
+
+// The asset as it is on chain, with the collection it belongs to if any
+interface AssetContext {
+  asset: AssetV1;
+  collection?: CollectionV1;
+}
+
+type BuildInstructions<T> = (
+  umi: Umi,
+  wallet: Signer,
+  context: AssetContext,
+  body: T
+) => Promise<TransactionBuilder>;
+
+/**
+ * Runs one asset management operation. Server-held signers sign and send it
+ * like mintCollectionNFT does, otherwise the response carries a transaction
+ * the wallet still has to sign and submit.
+ */
+async function runAssetOperation<T extends AssetManagementRequest>(
+  req: Request<{}, {}, T>,
+  res: Response<ApiResponse<ManageAssetResponse>>,
+  action: string,
+  buildInstructions: BuildInstructions<T>
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("asset", clientId, req.body, callerId(res));
+
+  try {
+    const { signerId, privateKey, publicKey: walletPublicKey } = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "started",
+      message: `Starting asset ${action}`,
+    });
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "progress",
+      step: "initialization",
+      progress: 30,
+      message: "Initializing connection and wallet",
+    });
+
+    const umi = createRpcUmi(req.body).use(mplCore());
+
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId, privateKey, publicKey: walletPublicKey },
+      signerAccess(res),
+      job.id
+    );
+    umi.use(signerIdentity(wallet.signer));
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "progress",
+      step: "fetching",
+      progress: 50,
+      message: "Fetching asset",
+    });
+
+    // Assets in a collection need it passed along for its plugins to apply
+    const asset = await fetchAsset(umi, publicKey(req.body.asset));
+    const currentCollection = collectionAddress(asset);
+    const collection = currentCollection
+      ? await fetchCollection(umi, currentCollection)
+      : undefined;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "progress",
+      step: "building",
+      progress: 70,
+      message: "Building transaction",
+    });
+
+    const builder = await buildInstructions(
+      umi,
+      wallet.signer,
+      { asset, collection },
+      req.body
+    );
+
+    if (!wallet.serverSigned) {
+      const transaction = await buildClientTransaction(umi, builder);
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "asset",
+        status: "completed",
+        progress: 100,
+        message: "Transaction prepared successfully",
+      });
+
+      completeJob(job.id, { address: req.body.asset });
+
+      return sendSuccess<ManageAssetResponse>(res, {
+        jobId: job.id,
+        asset: req.body.asset,
+        transaction,
+      });
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "progress",
+      step: "sending",
+      progress: 90,
+      message: "Sending transaction",
+    });
+
+    const tx = await builder.sendAndConfirm(umi);
+    const signature = bs58.encode(tx.signature);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "completed",
+      progress: 100,
+      message: `Asset ${action} confirmed`,
+    });
+
+    completeJob(job.id, { address: req.body.asset, signature });
+
+    return sendSuccess<ManageAssetResponse>(res, {
+      jobId: job.id,
+      asset: req.body.asset,
+      signature,
+    });
+  } catch (error) {
+    console.error(`Error in asset ${action}:`, error);
+    const apiError = toApiError(error);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "asset",
+      status: "error",
+      message: `Asset ${action} failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+
+    return sendError(res, apiError);
+  }
+}
+
+/**
+ * Changes the name and/or URI, signed by the update authority of the asset
+ * or of its collection
+ */
+export async function updateAsset(
+  req: Request<{}, {}, UpdateAssetRequest>,
+  res: Response<ApiResponse<ManageAssetResponse>>
+) {
+  await runAssetOperation(
+    req,
+    res,
+    "update",
+    async (umi, wallet, { asset, collection }, { name, uri }) =>
+      update(umi, { asset, collection, name, uri, authority: wallet })
+  );
+}
+
+/**
+ * Transfers the asset to `newOwner`, signed by its owner or transfer delegate
+ */
+export async function transferAsset(
+  req: Request<{}, {}, TransferAssetRequest>,
+  res: Response<ApiResponse<ManageAssetResponse>>
+) {
+  await runAssetOperation(
+    req,
+    res,
+    "transfer",
+    async (umi, wallet, { asset, collection }, { newOwner }) =>
+      transfer(umi, {
+        asset,
+        collection,
+        newOwner: publicKey(newOwner),
+        authority: wallet,
+      })
+  );
+}
+
+/**
+ * Burns the asset for good, signed by its owner or burn delegate. The rent
+ * goes back to the payer.
+ */
+export async function burnAsset(
+  req: Request<{}, {}, BurnAssetRequest>,
+  res: Response<ApiResponse<ManageAssetResponse>>
+) {
+  await runAssetOperation(
+    req,
+    res,
+    "burn",
+    async (umi, wallet, { asset, collection }) =>
+      burn(umi, { asset, collection, authority: wallet })
+  );
+}
+
+/**
+ * Moves the asset into `newCollection`. The wallet has to be the update
+ * authority of the new collection and of the current one, or of the asset
+ * itself when it is not in a collection yet.
+ */
+export async function moveAsset(
+  req: Request<{}, {}, MoveAssetRequest>,
+  res: Response<ApiResponse<ManageAssetResponse>>
+) {
+  await runAssetOperation(
+    req,
+    res,
+    "move",
+    async (umi, wallet, { asset, collection }, { newCollection }) => {
+      if (collection?.publicKey === newCollection) {
+        throw new ValidationError("Asset is already in this collection", [
+          { path: "newCollection", message: "Same as the current collection" },
+        ]);
+      }
+
+      const currentAuthority = collection
+        ? collection.updateAuthority
+        : asset.updateAuthority.address;
+      if (currentAuthority !== wallet.publicKey) {
+        throw new ValidationError(
+          "Wallet is not the update authority of the asset",
+          [{ path: "publicKey", message: "Not the current update authority" }]
+        );
+      }
+
+      const target = await fetchCollection(umi, publicKey(newCollection));
+      if (target.updateAuthority !== wallet.publicKey) {
+        throw new ValidationError(
+          "Wallet is not the update authority of the new collection",
+          [{ path: "newCollection", message: "Not its update authority" }]
+        );
+      }
+
+      return update(umi, {
+        asset,
+        collection,
+        newCollection: target.publicKey,
+        newUpdateAuthority: updateAuthority("Collection", [target.publicKey]),
+        authority: wallet,
+      });
+    }
+  );
+}
+
+// Example usage in Express router
+/*
+POST /asset/transfer
+{
+  "cluster": "devnet",
+  "signerId": "treasury",
+  // or "publicKey": "your_wallet_address" to get back a transaction to sign
+  "asset": "8Gk9F3sE7nAjyxLkFZ3rSyXw3GLhVfxyXJhBv1qMiH5Z",
+  "newOwner": "D4ScX2jf2nkb8ovbFfB8zorpnKrLTXcAXzsc2PZxK92U"
+}
+*/
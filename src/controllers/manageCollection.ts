@@ -0,0 +1,420 @@
+import { Request, Response } from "express";
+import {
+  publicKey,
+  signerIdentity,
+  Signer,
+  TransactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  addCollectionPlugin,
+  CollectionV1,
+  fetchCollection,
+  mplCore,
+  ruleSet,
+  updateCollection,
+  updateCollectionPlugin,
+} from "@metaplex-foundation/mpl-core";
+import bs58 from "bs58";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { buildClientTransaction } from "../utils/signers";
+import { resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import {
+  CollectionAuthorityRequest,
+  CollectionManagementRequest,
+  Creator,
+  UpdateCollectionRequest,
+} from "../schemas/collection";
+import { sha256Hex } from "../utils/shuffle";
+import {
+  ConflictError,
+  toApiError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi, getConnection } from "../utils/rpcPool";
+import { simulateBuilder, SimulationResult } from "../utils/simulation";
+
+// Old and new value of every field the request changes, unchanged ones are
+// left out
+interface CollectionDiff {
+  name?: { old: string; new: string };
+  uri?: { old: string; new: string };
+  royaltyBasisPoints?: { old: number | null; new: number };
+  creators?: { old: Creator[] | null; new: Creator[] };
+  updateAuthority?: { old: string; new: string };
+}
+
+interface ManageCollectionResponse {
+  jobId: string;
+  collection: string;
+  diff: CollectionDiff;
+  transaction?: string; // Only when the wallet behind publicKey signs
+  signature?: string; // Only when signed and sent on the server
+  simulation?: SimulationResult; // Only on dry runs and reviews
+  confirmToken?: string; // Sent back to have a server signer sign the diff
+}
+
+interface CollectionChange {
+  diff: CollectionDiff;
+  builder: TransactionBuilder;
+}
+
+type PlanChange<T> = (
+  umi: Umi,
+  wallet: Signer,
+  collection: CollectionV1,
+  body: T
+) => CollectionChange;
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Runs one change to an existing collection. The change is planned against
+ * the collection as it is on chain, and the resulting diff comes back with
+ * the transaction for the wallet or the simulation on dry runs. A server
+ * signer first only returns the diff with a simulation and a confirmToken,
+ * and signs once the same request comes back with that token. A token for
+ * a diff that no longer matches the chain is refused.
+ */
+async function runCollectionChange<T extends CollectionManagementRequest>(
+  req: Request<{}, {}, T>,
+  res: Response<ApiResponse<ManageCollectionResponse>>,
+  action: string,
+  planChange: PlanChange<T>
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("collection", clientId, req.body, callerId(res));
+
+  try {
+    const {
+      signerId,
+      privateKey,
+      publicKey: walletPublicKey,
+      dryRun,
+      confirmToken,
+    } = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "started",
+      message: `Starting collection ${action}`,
+    });
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "progress",
+      step: "initialization",
+      progress: 30,
+      message: "Initializing connection and wallet",
+    });
+
+    const umi = createRpcUmi(req.body).use(mplCore());
+
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId, privateKey, publicKey: walletPublicKey },
+      signerAccess(res),
+      job.id
+    );
+    umi.use(signerIdentity(wallet.signer));
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "progress",
+      step: "fetching",
+      progress: 50,
+      message: "Fetching collection",
+    });
+
+    const collection = await fetchCollection(
+      umi,
+      publicKey(req.body.collection)
+    );
+    if (collection.updateAuthority !== wallet.signer.publicKey) {
+      throw new ValidationError(
+        "Wallet is not the update authority of the collection",
+        [{ path: "publicKey", message: "Not the current update authority" }]
+      );
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "progress",
+      step: "building",
+      progress: 70,
+      message: "Comparing with on-chain state and building transaction",
+    });
+
+    const { diff, builder } = planChange(
+      umi,
+      wallet.signer,
+      collection,
+      req.body
+    );
+    if (Object.keys(diff).length === 0) {
+      throw new ValidationError(
+        "Nothing to change, the collection already has these values"
+      );
+    }
+
+    const response: ManageCollectionResponse = {
+      jobId: job.id,
+      collection: req.body.collection,
+      diff,
+    };
+
+    // Binds a confirmation to this exact diff, signer and collection
+    const reviewedToken = sha256Hex(
+      JSON.stringify({
+        action,
+        collection: req.body.collection,
+        signer: wallet.signer.publicKey,
+        diff,
+      })
+    );
+    const confirmed = confirmToken === reviewedToken;
+    if (wallet.serverSigned && !dryRun && confirmToken && !confirmed) {
+      throw new ConflictError(
+        "The diff no longer matches the collection, review it again"
+      );
+    }
+
+    // Nothing is signed or sent, the diff and simulation show the outcome
+    if (dryRun || (wallet.serverSigned && !confirmed)) {
+      response.simulation = await simulateBuilder(
+        umi,
+        getConnection(req.body),
+        builder
+      );
+      if (wallet.serverSigned) {
+        response.confirmToken = reviewedToken;
+      }
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "collection",
+        status: "completed",
+        progress: 100,
+        message: !response.simulation.success
+          ? `Simulation failed: ${response.simulation.error?.message}`
+          : dryRun
+          ? "Simulation succeeded"
+          : "Diff ready, send it again with confirmToken to sign it",
+      });
+
+      completeJob(job.id, {});
+
+      return sendSuccess(res, response);
+    }
+
+    if (!wallet.serverSigned) {
+      response.transaction = await buildClientTransaction(umi, builder);
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "collection",
+        status: "completed",
+        progress: 100,
+        message: "Transaction prepared successfully",
+      });
+
+      completeJob(job.id, { address: req.body.collection });
+
+      return sendSuccess(res, response);
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "progress",
+      step: "sending",
+      progress: 90,
+      message: "Sending transaction",
+    });
+
+    const tx = await builder.sendAndConfirm(umi);
+    response.signature = bs58.encode(tx.signature);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "completed",
+      progress: 100,
+      message: `Collection ${action} confirmed`,
+    });
+
+    completeJob(job.id, {
+      address: req.body.collection,
+      signature: response.signature,
+    });
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    console.error(`Error in collection ${action}:`, error);
+    const apiError = toApiError(error);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "collection",
+      status: "error",
+      message: `Collection ${action} failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+
+    return sendError(res, apiError);
+  }
+}
+
+/**
+ * Renames the collection, points it at new metadata and/or changes its
+ * royalties. Fields left out keep their on-chain values, royalties are
+ * updated in place or added when the collection has none yet.
+ */
+export async function updateCollectionDetails(
+  req: Request<{}, {}, UpdateCollectionRequest>,
+  res: Response<ApiResponse<ManageCollectionResponse>>
+) {
+  await runCollectionChange(
+    req,
+    res,
+    "update",
+    (umi, wallet, collection, body) => {
+      const diff: CollectionDiff = {};
+      let builder = new TransactionBuilder();
+
+      const current = collection.royalties;
+      const currentCreators =
+        current?.creators.map(({ address, percentage }) => ({
+          address: address.toString(),
+          percentage,
+        })) ?? null;
+      const basisPoints = body.royaltyBasisPoints ?? current?.basisPoints;
+      const creators = body.creators ?? currentCreators;
+
+      if (
+        body.royaltyBasisPoints !== undefined &&
+        body.royaltyBasisPoints !== current?.basisPoints
+      ) {
+        diff.royaltyBasisPoints = {
+          old: current?.basisPoints ?? null,
+          new: body.royaltyBasisPoints,
+        };
+      }
+      if (body.creators && !isSame(body.creators, currentCreators)) {
+        diff.creators = { old: currentCreators, new: body.creators };
+      }
+
+      if (diff.royaltyBasisPoints || diff.creators) {
+        if (basisPoints === undefined) {
+          throw new ValidationError(
+            "Collection has no royalties yet, royaltyBasisPoints is required",
+            [{ path: "royaltyBasisPoints", message: "Required" }]
+          );
+        }
+
+        const royalties = {
+          type: "Royalties" as const,
+          basisPoints,
+          // Same default as deployCollection, the authority gets it all
+          creators: (
+            creators ?? [{ address: wallet.publicKey, percentage: 100 }]
+          ).map(({ address, percentage }) => ({
+            address: publicKey(address),
+            percentage,
+          })),
+          ruleSet: current?.ruleSet ?? ruleSet("None"),
+        };
+        builder = builder.add(
+          current
+            ? updateCollectionPlugin(umi, {
+                collection: collection.publicKey,
+                plugin: royalties,
+                authority: wallet,
+              })
+            : addCollectionPlugin(umi, {
+                collection: collection.publicKey,
+                plugin: royalties,
+                authority: wallet,
+              })
+        );
+      }
+
+      if (body.name !== undefined && body.name !== collection.name) {
+        diff.name = { old: collection.name, new: body.name };
+      }
+      if (body.uri !== undefined && body.uri !== collection.uri) {
+        diff.uri = { old: collection.uri, new: body.uri };
+      }
+      if (diff.name || diff.uri) {
+        builder = builder.add(
+          updateCollection(umi, {
+            collection: collection.publicKey,
+            name: diff.name?.new,
+            uri: diff.uri?.new,
+            authority: wallet,
+          })
+        );
+      }
+
+      return { diff, builder };
+    }
+  );
+}
+
+/**
+ * Hands the update authority of the collection to another address, e.g. a
+ * multisig. The current authority loses every right over it at once.
+ */
+export async function setCollectionUpdateAuthority(
+  req: Request<{}, {}, CollectionAuthorityRequest>,
+  res: Response<ApiResponse<ManageCollectionResponse>>
+) {
+  await runCollectionChange(
+    req,
+    res,
+    "authority update",
+    (umi, wallet, collection, { newUpdateAuthority }) => {
+      const diff: CollectionDiff = {};
+      if (newUpdateAuthority !== collection.updateAuthority) {
+        diff.updateAuthority = {
+          old: collection.updateAuthority.toString(),
+          new: newUpdateAuthority,
+        };
+      }
+
+      return {
+        diff,
+        builder: updateCollection(umi, {
+          collection: collection.publicKey,
+          newUpdateAuthority: publicKey(newUpdateAuthority),
+          authority: wallet,
+        }),
+      };
+    }
+  );
+}
+
+// Example usage in Express router
+/*
+POST /collection/update
+{
+  "cluster": "devnet",
+  "publicKey": "your_wallet_address",
+  "collection": "EJRG9dgrFhKwMbdr1zPx77hLoq2gG1sxD8wW5nWDNHwR",
+  "uri": "https://arweave.net/corrected-metadata-uri",
+  "royaltyBasisPoints": 750,
+  "dryRun": true // Returns the diff and a simulation without signing
+}
+
+With "signerId" instead of "publicKey" the first response holds the diff,
+a simulation and a "confirmToken". Nothing is signed until the same body is
+posted again with that "confirmToken".
+*/
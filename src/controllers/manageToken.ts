@@ -0,0 +1,358 @@
+import { Request, Response } from "express";
+import { PublicKey } from "@solana/web3.js";
+import {
+  Context,
+  none,
+  PublicKey as UmiPublicKey,
+  signerIdentity,
+  some,
+  Signer,
+  TransactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  burnV1,
+  mintV1,
+  mplTokenMetadata,
+  TokenStandard,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  AuthorityType,
+  fetchMint,
+  findAssociatedTokenPda,
+  freezeToken,
+  mplToolbox,
+  setAuthority,
+  SPL_TOKEN_PROGRAM_ID,
+  thawToken,
+} from "@metaplex-foundation/mpl-toolbox";
+import { fromWeb3JsPublicKey } from "@metaplex-foundation/umi-web3js-adapters";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { callerId } from "../middlewares/auth";
+import { buildClientTransaction, createNullSigner } from "../utils/signers";
+import {
+  BurnTokensRequest,
+  MintTokensRequest,
+  SetTokenAuthorityRequest,
+  TokenAccountRequest,
+  TokenManagementRequest,
+} from "../schemas/token";
+import { toBaseUnits } from "../utils/amount";
+import { SPL_TOKEN_2022_PROGRAM_ID } from "../utils/token2022";
+import { toApiError, ValidationError } from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi } from "../utils/rpcPool";
+
+interface ManageTokenResponse {
+  jobId: string;
+  transaction: string; // Serialized transaction for the wallet to sign
+  mint: string;
+}
+
+type BuildInstructions<T> = (
+  umi: Umi,
+  wallet: Signer,
+  body: T,
+  tokenProgram: UmiPublicKey
+) => Promise<TransactionBuilder>;
+
+const toUmiPublicKey = (address: string) =>
+  fromWeb3JsPublicKey(new PublicKey(address));
+
+// Works for both token programs, the mint account owner tells which one
+async function fetchTokenProgram(umi: Umi, mint: string) {
+  const account = await umi.rpc.getAccount(toUmiPublicKey(mint));
+  if (!account.exists) {
+    throw new ValidationError("Mint not found", [
+      { path: "mint", message: "No mint account at this address" },
+    ]);
+  }
+  if (
+    account.owner !== SPL_TOKEN_PROGRAM_ID &&
+    account.owner !== SPL_TOKEN_2022_PROGRAM_ID
+  ) {
+    throw new ValidationError("Not a token mint", [
+      { path: "mint", message: "Not owned by a token program" },
+    ]);
+  }
+  return account.owner;
+}
+
+// The toolbox token instructions take their program from the context
+const withTokenProgram = (
+  umi: Umi,
+  tokenProgram: UmiPublicKey
+): Pick<Context, "eddsa" | "identity" | "payer" | "programs"> => {
+  const programs = umi.programs.clone();
+  if (tokenProgram === SPL_TOKEN_2022_PROGRAM_ID) {
+    programs.bind("splToken", "splToken2022");
+  }
+  return { ...umi, programs };
+};
+
+// Converts a UI amount into base units using the mint's on-chain decimals
+async function toMintBaseUnits(umi: Umi, mint: string, amount: string) {
+  const { decimals } = await fetchMint(umi, toUmiPublicKey(mint));
+  return toBaseUnits(amount, decimals);
+}
+
+/**
+ * Runs one token management operation the same way createToken does: the
+ * wallet is a null signer, so the response carries a transaction it still
+ * has to sign and submit
+ */
+async function prepareTokenTransaction<T extends TokenManagementRequest>(
+  req: Request<{}, {}, T>,
+  res: Response<ApiResponse<ManageTokenResponse>>,
+  action: string,
+  buildInstructions: BuildInstructions<T>
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("token", clientId, req.body, callerId(res));
+
+  try {
+    const { mint, publicKey } = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "started",
+      message: `Preparing ${action} transaction`,
+    });
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "progress",
+      step: "initialization",
+      progress: 40,
+      message: "Initializing connection",
+    });
+
+    const umi = createRpcUmi(req.body)
+      .use(mplTokenMetadata())
+      .use(mplToolbox());
+
+    const nullSigner = createNullSigner(toUmiPublicKey(publicKey));
+    umi.use(signerIdentity(nullSigner));
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "progress",
+      step: "building",
+      progress: 60,
+      message: "Building transaction",
+    });
+
+    const tokenProgram = await fetchTokenProgram(umi, mint);
+    const builder = await buildInstructions(
+      umi,
+      nullSigner,
+      req.body,
+      tokenProgram
+    );
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "progress",
+      step: "finalizing",
+      progress: 80,
+      message: "Finalizing transaction",
+    });
+
+    const transaction = await buildClientTransaction(umi, builder);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "completed",
+      progress: 100,
+      message: "Transaction prepared successfully",
+    });
+
+    completeJob(job.id, { address: mint });
+
+    return sendSuccess<ManageTokenResponse>(res, {
+      jobId: job.id,
+      transaction,
+      mint,
+    });
+  } catch (error) {
+    console.error(`Error preparing ${action}:`, error);
+    const apiError = toApiError(error);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "token",
+      status: "error",
+      message: `Failed to prepare transaction: ${apiError.message}`,
+      code: apiError.code,
+    });
+
+    return sendError(res, apiError);
+  }
+}
+
+/**
+ * Mints more supply to the recipient (the wallet itself by default), the
+ * wallet must still hold the mint authority
+ */
+export async function mintTokens(
+  req: Request<{}, {}, MintTokensRequest>,
+  res: Response<ApiResponse<ManageTokenResponse>>
+) {
+  await prepareTokenTransaction(
+    req,
+    res,
+    "mint",
+    async (umi, wallet, { mint, amount, recipient }, tokenProgram) => {
+      const tokenOwner = recipient
+        ? toUmiPublicKey(recipient)
+        : wallet.publicKey;
+      return mintV1(umi, {
+        mint: toUmiPublicKey(mint),
+        authority: wallet,
+        tokenStandard: TokenStandard.Fungible,
+        tokenOwner,
+        token: findAssociatedTokenPda(umi, {
+          mint: toUmiPublicKey(mint),
+          owner: tokenOwner,
+          tokenProgramId: tokenProgram,
+        }),
+        splTokenProgram: tokenProgram,
+        amount: await toMintBaseUnits(umi, mint, amount),
+      });
+    }
+  );
+}
+
+/**
+ * Burns tokens from the wallet's own token account
+ */
+export async function burnTokens(
+  req: Request<{}, {}, BurnTokensRequest>,
+  res: Response<ApiResponse<ManageTokenResponse>>
+) {
+  await prepareTokenTransaction(
+    req,
+    res,
+    "burn",
+    async (umi, wallet, { mint, amount }, tokenProgram) =>
+      burnV1(umi, {
+        mint: toUmiPublicKey(mint),
+        authority: wallet,
+        tokenOwner: wallet.publicKey,
+        token: findAssociatedTokenPda(umi, {
+          mint: toUmiPublicKey(mint),
+          owner: wallet.publicKey,
+          tokenProgramId: tokenProgram,
+        }),
+        splTokenProgram: tokenProgram,
+        tokenStandard: TokenStandard.Fungible,
+        amount: await toMintBaseUnits(umi, mint, amount),
+      })
+  );
+}
+
+/**
+ * Freezes the owner's token account, signed by the freeze authority wallet
+ */
+export async function freezeTokenAccount(
+  req: Request<{}, {}, TokenAccountRequest>,
+  res: Response<ApiResponse<ManageTokenResponse>>
+) {
+  await prepareTokenTransaction(
+    req,
+    res,
+    "freeze",
+    async (umi, wallet, { mint, owner }, tokenProgram) =>
+      freezeToken(withTokenProgram(umi, tokenProgram), {
+        account: findAssociatedTokenPda(umi, {
+          mint: toUmiPublicKey(mint),
+          owner: toUmiPublicKey(owner),
+          tokenProgramId: tokenProgram,
+        }),
+        mint: toUmiPublicKey(mint),
+        owner: wallet,
+      })
+  );
+}
+
+/**
+ * Thaws a token account frozen with freezeTokenAccount
+ */
+export async function thawTokenAccount(
+  req: Request<{}, {}, TokenAccountRequest>,
+  res: Response<ApiResponse<ManageTokenResponse>>
+) {
+  await prepareTokenTransaction(
+    req,
+    res,
+    "thaw",
+    async (umi, wallet, { mint, owner }, tokenProgram) =>
+      thawToken(withTokenProgram(umi, tokenProgram), {
+        account: findAssociatedTokenPda(umi, {
+          mint: toUmiPublicKey(mint),
+          owner: toUmiPublicKey(owner),
+          tokenProgramId: tokenProgram,
+        }),
+        mint: toUmiPublicKey(mint),
+        owner: wallet,
+      })
+  );
+}
+
+/**
+ * Transfers the mint or freeze authority, or revokes it when `newAuthority`
+ * is null. Revoking the mint authority fixes the supply for good.
+ */
+export async function setTokenAuthority(
+  req: Request<{}, {}, SetTokenAuthorityRequest>,
+  res: Response<ApiResponse<ManageTokenResponse>>
+) {
+  await prepareTokenTransaction(
+    req,
+    res,
+    "authority update",
+    async (
+      umi,
+      wallet,
+      { mint, authorityType, newAuthority },
+      tokenProgram
+    ) => {
+      const account = await fetchMint(umi, toUmiPublicKey(mint));
+      const current =
+        authorityType === "mint"
+          ? account.mintAuthority
+          : account.freezeAuthority;
+
+      // The program rejects these too, but only once the wallet has signed
+      if (current.__option === "None" || current.value !== wallet.publicKey) {
+        throw new ValidationError(
+          `Wallet is not the ${authorityType} authority`,
+          [
+            {
+              path: "publicKey",
+              message: `Must be the current ${authorityType} authority`,
+            },
+          ]
+        );
+      }
+
+      return setAuthority(withTokenProgram(umi, tokenProgram), {
+        owned: toUmiPublicKey(mint),
+        owner: wallet,
+        authorityType:
+          authorityType === "mint"
+            ? AuthorityType.MintTokens
+            : AuthorityType.FreezeAccount,
+        newAuthority: newAuthority
+          ? some(toUmiPublicKey(newAuthority))
+          : none(),
+      });
+    }
+  );
+}
@@ -1,52 +1,40 @@
 // nftController.ts
 import { Request, Response } from "express";
-import { Keypair, PublicKey, Connection } from "@solana/web3.js";
-import { generateSigner, keypairIdentity } from "@metaplex-foundation/umi";
+import { PublicKey } from "@solana/web3.js";
+import { signerIdentity } from "@metaplex-foundation/umi";
 import {
   create,
   mplCore,
   fetchCollection,
 } from "@metaplex-foundation/mpl-core";
 import {
-  fromWeb3JsKeypair,
   fromWeb3JsPublicKey,
   toWeb3JsPublicKey,
 } from "@metaplex-foundation/umi-web3js-adapters";
-import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import bs58 from "bs58";
 import { sendProgressUpdate } from "../utils/progress";
-
-// Types for request body
-interface MintNFTRequestBody {
-  rpcEndpoint: string;
-  privateKey: string; // base64 encoded private key
-  collectionMint: string;
-  metadata: {
-    name: string;
-    uri: string;
-    sellerFeeBasisPoints?: number;
-    creators?: Array<{
-      address: string;
-      share: number;
-    }>;
-  };
-  recipient?: string;
-  clientId: string;
-}
+import { completeJob, createJob } from "../utils/jobStore";
+import {
+  partiallySignTransaction,
+  serializeTransaction,
+} from "../utils/signers";
+import { keystore, resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import { MintNFTRequestBody } from "../schemas/nft";
+import { toApiError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi, getConnection } from "../utils/rpcPool";
+import { simulateBuilder, SimulationResult } from "../utils/simulation";
+import { toAssetPlugins } from "../utils/corePlugins";
+import { AssetPluginSpec } from "../schemas/plugins";
 
 // Types for response
 interface MintNFTResponse {
+  jobId: string;
   mint: string;
   metadata: string;
-}
-
-// Helper function to get wallet keypair from private key
-function getWalletKeypair(privateKey: string): Keypair {
-  try {
-    const privateKeyBytes = Buffer.from(privateKey, "base64");
-    return Keypair.fromSecretKey(privateKeyBytes);
-  } catch (error) {
-    throw new Error("Invalid private key format. Must be base64 encoded.");
-  }
+  transaction?: string; // Partially signed, only when minting with publicKey
+  simulation?: SimulationResult; // Only on dry runs
 }
 
 /**
@@ -54,67 +42,29 @@ function getWalletKeypair(privateKey: string): Keypair {
  */
 export async function mintCollectionNFT(req: Request, res: Response) {
   const clientId = req.body.clientId;
+  const job = createJob("nft", clientId, req.body, callerId(res));
 
   try {
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "started",
       message: "Starting NFT minting process",
     });
 
     const {
-      rpcEndpoint,
+      signerId,
       privateKey,
+      publicKey: walletPublicKey,
       collectionMint,
       metadata,
       recipient,
+      plugins = [],
+      dryRun,
     }: MintNFTRequestBody = req.body;
 
     sendProgressUpdate(clientId, {
-      type: "nft",
-      status: "progress",
-      step: "validation",
-      progress: 15,
-      message: "Validating input parameters",
-    });
-
-    // Validate request body
-    if (!rpcEndpoint) {
-      sendProgressUpdate(clientId, {
-        type: "nft",
-        status: "error",
-        message: "RPC endpoint is required",
-      });
-      return res.status(400).json({
-        error: "RPC endpoint is required",
-      });
-    }
-
-    if (!privateKey) {
-      sendProgressUpdate(clientId, {
-        type: "nft",
-        status: "error",
-        message: "Private key is required",
-      });
-      return res.status(400).json({
-        error: "Private key is required",
-      });
-    }
-
-    if (!collectionMint || !metadata.name || !metadata.uri) {
-      sendProgressUpdate(clientId, {
-        type: "nft",
-        status: "error",
-        message:
-          "Missing required fields: collectionMint, metadata.name, or metadata.uri",
-      });
-      return res.status(400).json({
-        error:
-          "Missing required fields: collectionMint, metadata.name, or metadata.uri",
-      });
-    }
-
-    sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "progress",
       step: "connection",
@@ -122,56 +72,36 @@ export async function mintCollectionNFT(req: Request, res: Response) {
       message: "Initializing blockchain connection",
     });
 
-    // Initialize Solana connection with provided RPC endpoint
-    const connection = new Connection(rpcEndpoint);
-
-    // Validate RPC endpoint by testing connection
-    try {
-      await connection.getLatestBlockhash();
-    } catch (error) {
-      sendProgressUpdate(clientId, {
-        type: "nft",
-        status: "error",
-        message: "Invalid RPC endpoint or connection failed",
-      });
-      return res.status(400).json({
-        error: "Invalid RPC endpoint or connection failed",
-      });
-    }
-
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "progress",
       step: "wallet_init",
       progress: 45,
       message: "Initializing wallet",
     });
-    // Get wallet keypair from provided private key
-    let walletKeypair: Keypair;
-    try {
-      walletKeypair = getWalletKeypair(privateKey);
-    } catch (error: any) {
-      sendProgressUpdate(clientId, {
-        type: "nft",
-        status: "error",
-        message: error.message,
-      });
-      return res.status(400).json({
-        error: error.message,
-      });
-    }
 
     // UMI initialization progress
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "progress",
       step: "umi_init",
       progress: 60,
       message: "Initializing UMI and fetching collection",
     });
-    // Create UMI instance with provided RPC endpoint
-    const umi = createUmi(rpcEndpoint).use(mplCore());
-    umi.use(keypairIdentity(fromWeb3JsKeypair(walletKeypair)));
+    // Shared connection of the requested cluster, it fails over by itself
+    const umi = createRpcUmi(req.body).use(mplCore());
+
+    // Without a server-side signer the transaction is returned for the wallet
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId, privateKey, publicKey: walletPublicKey },
+      signerAccess(res),
+      job.id
+    );
+    const authority = wallet.signer.publicKey;
+    umi.use(signerIdentity(wallet.signer));
 
     // Convert collection mint to PublicKey and then to UMI format
     const collectionMintPubkey = new PublicKey(collectionMint);
@@ -179,6 +109,7 @@ export async function mintCollectionNFT(req: Request, res: Response) {
 
     // Collection verification progress
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "progress",
       step: "collection_verification",
@@ -189,11 +120,34 @@ export async function mintCollectionNFT(req: Request, res: Response) {
     // Fetch the existing collection
     const collection = await fetchCollection(umi, umiCollectionMint);
 
+    // Metadata royalties go on chain as a Royalties plugin, all of them to
+    // the minting authority unless creators are listed
+    const royalties: AssetPluginSpec[] =
+      metadata.sellerFeeBasisPoints === undefined
+        ? []
+        : [
+            {
+              type: "Royalties",
+              basisPoints: metadata.sellerFeeBasisPoints,
+              creators: metadata.creators?.length
+                ? metadata.creators.map(({ address, share }) => ({
+                    address,
+                    percentage: share,
+                  }))
+                : [{ address: authority, percentage: 100 }],
+              ruleSet: { type: "None" },
+            },
+          ];
+
     // Generate a new signer for the NFT
-    const assetSigner = generateSigner(umi);
+    const assetSigner = keystore.generate(umi, {
+      jobId: job.id,
+      purpose: "asset",
+    });
 
     // NFT minting progress
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "progress",
       step: "minting",
@@ -202,50 +156,107 @@ export async function mintCollectionNFT(req: Request, res: Response) {
     });
 
     // Create the NFT in the collection
-    await create(umi, {
+    const builder = create(umi, {
       asset: assetSigner,
       collection: collection,
       name: metadata.name,
       uri: metadata.uri,
       owner: recipient
         ? fromWeb3JsPublicKey(new PublicKey(recipient))
-        : fromWeb3JsPublicKey(walletKeypair.publicKey),
-    }).sendAndConfirm(umi);
+        : authority,
+      plugins: toAssetPlugins([...plugins, ...royalties]),
+    });
+
+    // Prepare response
+    const response: MintNFTResponse = {
+      jobId: job.id,
+      mint: toWeb3JsPublicKey(assetSigner.publicKey).toBase58(),
+      metadata: toWeb3JsPublicKey(assetSigner.publicKey).toBase58(),
+    };
+
+    // Nothing is signed or sent, the simulation shows what would happen
+    if (dryRun) {
+      response.simulation = await simulateBuilder(
+        umi,
+        getConnection(req.body),
+        builder
+      );
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "nft",
+        status: "completed",
+        progress: 100,
+        message: response.simulation.success
+          ? "Simulation succeeded"
+          : `Simulation failed: ${response.simulation.error?.message}`,
+      });
+
+      completeJob(job.id, {});
+
+      return sendSuccess(res, response);
+    }
+
+    if (!wallet.serverSigned) {
+      // Only the asset signer is added, the wallet signs as payer and authority
+      const latestBlockhash = await umi.rpc.getLatestBlockhash();
+      const transaction = await partiallySignTransaction(
+        builder.setBlockhash(latestBlockhash.blockhash).build(umi),
+        [assetSigner]
+      );
+      response.transaction = serializeTransaction(umi, transaction);
+
+      sendProgressUpdate(clientId, {
+        jobId: job.id,
+        type: "nft",
+        status: "completed",
+        progress: 100,
+        message: "Transaction prepared successfully",
+      });
+
+      completeJob(job.id, { address: response.mint });
+
+      return sendSuccess(res, response);
+    }
+
+    const tx = await builder.sendAndConfirm(umi);
 
     // Success progress update
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "completed",
       progress: 100,
       message: "NFT minted successfully",
     });
 
-    // Prepare response
-    const response: MintNFTResponse = {
-      mint: toWeb3JsPublicKey(assetSigner.publicKey).toBase58(),
-      metadata: toWeb3JsPublicKey(assetSigner.publicKey).toBase58(),
-    };
+    completeJob(job.id, {
+      address: response.mint,
+      signature: bs58.encode(tx.signature),
+    });
 
-    return res.status(200).json(response);
-  } catch (error: any) {
+    return sendSuccess(res, response);
+  } catch (error) {
+    const apiError = toApiError(error);
     // Error progress update
     sendProgressUpdate(clientId, {
+      jobId: job.id,
       type: "nft",
       status: "error",
-      message: `NFT minting failed: ${error.message}`,
+      message: `NFT minting failed: ${apiError.message}`,
+      code: apiError.code,
     });
     console.error("NFT minting error:", error);
-    return res.status(500).json({
-      error: `NFT minting failed: ${error.message}`,
-    });
+    return sendError(res, apiError);
   }
 }
 
 // Example usage in Express router
 /*
 {
-  "rpcEndpoint": "https://api.mainnet-beta.solana.com",
-  "privateKey": "your_base64_encoded_private_key",
+  "cluster": "mainnet",
+  "signerId": "treasury",
+  // or "publicKey": "your_wallet_address" to get back a transaction to sign
   "collectionMint": "EJRG9dgrFhKwMbdr1zPx77hLoq2gG1sxD8wW5nWDNHwR",
   "metadata": {
     "name": "My NFT",
@@ -0,0 +1,287 @@
+import { Request, Response } from "express";
+import { PublicKey } from "@solana/web3.js";
+import {
+  signerIdentity,
+  Signer,
+  TransactionBuilder,
+} from "@metaplex-foundation/umi";
+import {
+  create,
+  mplCore,
+  fetchCollection,
+} from "@metaplex-foundation/mpl-core";
+import { fromWeb3JsPublicKey } from "@metaplex-foundation/umi-web3js-adapters";
+import bs58 from "bs58";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+  partiallySignTransaction,
+  serializeTransaction,
+} from "../utils/signers";
+import { keystore, resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import { BatchMintRequestBody } from "../schemas/nft";
+import { ErrorCode, toApiError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi } from "../utils/rpcPool";
+import { toAssetPlugins } from "../utils/corePlugins";
+
+interface BatchMintItemResult {
+  index: number;
+  name: string;
+  status: "minted" | "prepared" | "failed";
+  mint?: string;
+  signature?: string;
+  transactionIndex?: number; // Index into `transactions` in publicKey mode
+  error?: string;
+  code?: ErrorCode;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+interface Chunk {
+  builder: TransactionBuilder;
+  signers: Signer[];
+  indexes: number[];
+}
+
+/**
+ * Mint many assets into one collection, packing as many `create`
+ * instructions into each transaction as the size limit allows
+ */
+export async function mintCollectionNFTBatch(req: Request, res: Response) {
+  const clientId = req.body.clientId;
+  const job = createJob("nft", clientId, req.body, callerId(res));
+
+  try {
+    const {
+      signerId,
+      privateKey,
+      publicKey: walletPublicKey,
+      collectionMint,
+      items,
+      concurrency = DEFAULT_CONCURRENCY,
+    }: BatchMintRequestBody = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "started",
+      message: "Starting batch NFT minting process",
+    });
+
+    const umi = createRpcUmi(req.body).use(mplCore());
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId, privateKey, publicKey: walletPublicKey },
+      signerAccess(res),
+      job.id
+    );
+    const authority = wallet.signer.publicKey;
+    umi.use(signerIdentity(wallet.signer));
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "progress",
+      step: "collection_verification",
+      progress: 5,
+      message: "Fetching collection",
+    });
+
+    // Fetched once for the whole batch, this also proves the RPC works
+    const collection = await fetchCollection(
+      umi,
+      fromWeb3JsPublicKey(new PublicKey(collectionMint))
+    );
+
+    const results: BatchMintItemResult[] = items.map((item, index) => ({
+      index,
+      name: item.name,
+      status: "failed",
+    }));
+
+    // Build one create per item and pack them greedily into transactions
+    const chunks: Chunk[] = [];
+    items.forEach((item, index) => {
+      const assetSigner = keystore.generate(umi, {
+        jobId: job.id,
+        purpose: `asset ${index}`,
+      });
+      results[index].mint = assetSigner.publicKey.toString();
+      const itemBuilder = create(umi, {
+        asset: assetSigner,
+        collection,
+        name: item.name,
+        uri: item.uri,
+        owner: item.recipient
+          ? fromWeb3JsPublicKey(new PublicKey(item.recipient))
+          : authority,
+        plugins: toAssetPlugins(item.plugins ?? []),
+      });
+
+      const last = chunks[chunks.length - 1];
+      const packed = last?.builder.add(itemBuilder);
+      if (last && packed!.fitsInOneTransaction(umi)) {
+        last.builder = packed!;
+        last.signers.push(assetSigner);
+        last.indexes.push(index);
+      } else {
+        chunks.push({
+          builder: itemBuilder,
+          signers: [assetSigner],
+          indexes: [index],
+        });
+      }
+    });
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "progress",
+      step: "minting",
+      progress: 10,
+      message: `Packed ${items.length} items into ${
+        chunks.length
+      } transactions`,
+    });
+
+    let settled = 0;
+    const reportItems = (indexes: number[]) => {
+      settled += indexes.length;
+      indexes.forEach((index) => {
+        const result = results[index];
+        sendProgressUpdate(clientId, {
+          jobId: job.id,
+          type: "nft",
+          status: "progress",
+          step: "minting",
+          progress: 10 + Math.round((settled / items.length) * 90),
+          message: `Item ${index + 1} of ${items.length} ${result.status}`,
+          item: {
+            index,
+            status: result.status,
+            address: result.mint,
+            error: result.error,
+          },
+        });
+      });
+    };
+
+    let transactions: string[] | undefined;
+    // Block height after which each of `transactions` can no longer land
+    let lastValidBlockHeights: number[] | undefined;
+
+    if (!wallet.serverSigned) {
+      // Only the asset signers are added, the wallet signs as payer/authority.
+      // Each transaction gets its own blockhash, fetched as it is built.
+      const prepared = await mapWithConcurrency(
+        chunks,
+        concurrency,
+        async (chunk, transactionIndex) => {
+          const latestBlockhash = await umi.rpc.getLatestBlockhash();
+          const transaction = await partiallySignTransaction(
+            chunk.builder.setBlockhash(latestBlockhash.blockhash).build(umi),
+            chunk.signers
+          );
+          chunk.indexes.forEach((index) => {
+            results[index].status = "prepared";
+            results[index].transactionIndex = transactionIndex;
+          });
+          reportItems(chunk.indexes);
+          return {
+            transaction: serializeTransaction(umi, transaction),
+            lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+          };
+        }
+      );
+      transactions = prepared.map(({ transaction }) => transaction);
+      lastValidBlockHeights = prepared.map(
+        ({ lastValidBlockHeight }) => lastValidBlockHeight
+      );
+    } else {
+      await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+        try {
+          const tx = await chunk.builder.sendAndConfirm(umi);
+          const signature = bs58.encode(tx.signature);
+          chunk.indexes.forEach((index) => {
+            results[index].status = "minted";
+            results[index].signature = signature;
+          });
+        } catch (error) {
+          // A failed transaction only fails the items packed into it
+          console.error("Batch chunk minting error:", error);
+          const apiError = toApiError(error);
+          chunk.indexes.forEach((index) => {
+            results[index].error = apiError.message;
+            results[index].code = apiError.code;
+          });
+        }
+        reportItems(chunk.indexes);
+      });
+    }
+
+    const failed = results.filter((result) => result.status === "failed");
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "completed",
+      progress: 100,
+      message: `Batch finished: ${items.length - failed.length} succeeded, ${
+        failed.length
+      } failed`,
+    });
+
+    completeJob(job.id, {
+      address: collectionMint,
+      items: results.map(({ mint, signature, error }) => ({
+        address: mint,
+        signature,
+        error,
+      })),
+    });
+
+    // Only the items that went through count against the mint quota
+    res.locals.mintsMade = items.length - failed.length;
+
+    return sendSuccess(res, {
+      jobId: job.id,
+      collection: collectionMint,
+      succeeded: items.length - failed.length,
+      failed: failed.length,
+      results,
+      transactions,
+      lastValidBlockHeights,
+    });
+  } catch (error) {
+    const apiError = toApiError(error);
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "nft",
+      status: "error",
+      message: `Batch NFT minting failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+    console.error("Batch NFT minting error:", error);
+    return sendError(res, apiError);
+  }
+}
+
+// Example request body
+/*
+{
+  "cluster": "mainnet",
+  "signerId": "treasury",
+  "collectionMint": "EJRG9dgrFhKwMbdr1zPx77hLoq2gG1sxD8wW5nWDNHwR",
+  "concurrency": 4,
+  "items": [
+    {
+      "name": "My NFT #1",
+      "uri": "https://arweave.net/your-metadata-uri-1",
+      "recipient": "D4ScX2jf2nkb8ovbFfB8zorpnKrLTXcAXzsc2PZxK92U"
+    }
+  ]
+}
+*/
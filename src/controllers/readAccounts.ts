@@ -0,0 +1,213 @@
+import { Request, Response } from "express";
+import { publicKey, unwrapOption, Umi } from "@metaplex-foundation/umi";
+import {
+  fetchDigitalAsset,
+  mplTokenMetadata,
+  TokenStandard,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  AssetV1,
+  CollectionV1,
+  fetchAsset,
+  fetchCollection,
+  mplCore,
+} from "@metaplex-foundation/mpl-core";
+import { ReadQuery } from "../schemas/read";
+import { createRpcUmi } from "../utils/rpcPool";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+
+// Fields every read endpoint returns, whatever the account kind
+interface AccountView {
+  address: string;
+  type: "token" | "collection" | "asset";
+  name: string;
+  uri: string;
+  updateAuthority: string | null;
+}
+
+interface TokenView extends AccountView {
+  type: "token";
+  symbol: string;
+  decimals: number;
+  supply: string; // In base units, u64 does not fit in a JSON number
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  tokenStandard: string | null;
+  sellerFeeBasisPoints: number;
+  isMutable: boolean;
+  creators: { address: string; verified: boolean; share: number }[];
+}
+
+interface CollectionView extends AccountView {
+  type: "collection";
+  numMinted: number;
+  currentSize: number;
+  plugins: Record<string, unknown>;
+}
+
+interface AssetView extends AccountView {
+  type: "asset";
+  owner: string;
+  collection: string | null;
+  attributes: { key: string; value: string }[];
+  plugins: Record<string, unknown>;
+}
+
+const PLUGIN_KEYS = [
+  "attributes",
+  "royalties",
+  "updateDelegate",
+  "permanentFreezeDelegate",
+  "permanentTransferDelegate",
+  "permanentBurnDelegate",
+  "addBlocker",
+  "immutableMetadata",
+  "autograph",
+  "verifiedCreators",
+  "freezeDelegate",
+  "burnDelegate",
+  "transferDelegate",
+  "edition",
+  "masterEdition",
+] as const;
+
+const createReadUmi = (query: ReadQuery) =>
+  createRpcUmi(query)
+    .use(mplTokenMetadata())
+    .use(mplCore());
+
+// Makes plugin data JSON friendly: bigints become strings, offsets are dropped
+const toJsonValue = (value: unknown): unknown => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== "offset")
+        .map(([key, entry]) => [key, toJsonValue(entry)])
+    );
+  }
+  return value;
+};
+
+const pickPlugins = (account: AssetV1 | CollectionV1) => {
+  const plugins: Record<string, unknown> = {};
+  for (const key of PLUGIN_KEYS) {
+    const plugin = (account as Record<string, unknown>)[key];
+    if (plugin) plugins[key] = toJsonValue(plugin);
+  }
+  return plugins;
+};
+
+async function readToken(umi: Umi, mint: string): Promise<TokenView> {
+  const { mint: account, metadata } = await fetchDigitalAsset(
+    umi,
+    publicKey(mint)
+  );
+  const tokenStandard = unwrapOption(metadata.tokenStandard);
+
+  return {
+    address: mint,
+    type: "token",
+    name: metadata.name,
+    uri: metadata.uri,
+    updateAuthority: metadata.updateAuthority,
+    symbol: metadata.symbol,
+    decimals: account.decimals,
+    supply: account.supply.toString(),
+    mintAuthority: unwrapOption(account.mintAuthority),
+    freezeAuthority: unwrapOption(account.freezeAuthority),
+    tokenStandard: tokenStandard === null ? null : TokenStandard[tokenStandard],
+    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints,
+    isMutable: metadata.isMutable,
+    creators: (unwrapOption(metadata.creators) ?? []).map((creator) => ({
+      address: creator.address,
+      verified: creator.verified,
+      share: creator.share,
+    })),
+  };
+}
+
+async function readCollection(
+  umi: Umi,
+  address: string
+): Promise<CollectionView> {
+  const collection = await fetchCollection(umi, publicKey(address));
+
+  return {
+    address,
+    type: "collection",
+    name: collection.name,
+    uri: collection.uri,
+    updateAuthority: collection.updateAuthority,
+    numMinted: collection.numMinted,
+    currentSize: collection.currentSize,
+    plugins: pickPlugins(collection),
+  };
+}
+
+async function readAsset(umi: Umi, address: string): Promise<AssetView> {
+  const asset = await fetchAsset(umi, publicKey(address));
+  // Assets in a collection name it as their update authority
+  const inCollection = asset.updateAuthority.type === "Collection";
+
+  return {
+    address,
+    type: "asset",
+    name: asset.name,
+    uri: asset.uri,
+    updateAuthority: asset.updateAuthority.address ?? null,
+    owner: asset.owner,
+    collection: inCollection ? asset.updateAuthority.address ?? null : null,
+    attributes: asset.attributes?.attributeList ?? [],
+    plugins: pickPlugins(asset),
+  };
+}
+
+/**
+ * Supply, decimals, authorities and Metaplex metadata of a fungible mint
+ */
+export async function getToken(
+  req: Request,
+  res: Response<ApiResponse<TokenView>>
+) {
+  try {
+    const umi = createReadUmi(req.query as ReadQuery);
+    return sendSuccess(res, await readToken(umi, req.params.mint));
+  } catch (error) {
+    console.error("Token lookup error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * An mpl-core collection with its plugins and mint counters
+ */
+export async function getCollection(
+  req: Request,
+  res: Response<ApiResponse<CollectionView>>
+) {
+  try {
+    const umi = createReadUmi(req.query as ReadQuery);
+    return sendSuccess(res, await readCollection(umi, req.params.address));
+  } catch (error) {
+    console.error("Collection lookup error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * An mpl-core asset with its owner, collection and attributes
+ */
+export async function getAsset(
+  req: Request,
+  res: Response<ApiResponse<AssetView>>
+) {
+  try {
+    const umi = createReadUmi(req.query as ReadQuery);
+    return sendSuccess(res, await readAsset(umi, req.params.address));
+  } catch (error) {
+    console.error("Asset lookup error:", error);
+    return sendError(res, error);
+  }
+}
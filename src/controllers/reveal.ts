@@ -0,0 +1,684 @@
+import { Request, Response } from "express";
+import { randomBytes, randomUUID } from "crypto";
+import {
+  publicKey,
+  PublicKey as UmiPublicKey,
+  signerIdentity,
+  TransactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  collectionAddress,
+  fetchCollection,
+  mplCore,
+  safeFetchAllAssetV1,
+  update,
+} from "@metaplex-foundation/mpl-core";
+import bs58 from "bs58";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { resolveWalletSigner } from "../utils/keystore";
+import { callerId, signerAccess } from "../middlewares/auth";
+import { collectionAssetsQuery } from "../utils/collectionAssets";
+import { seededShuffle, sha256Hex } from "../utils/shuffle";
+import { parseCsv } from "../utils/csv";
+import {
+  getReveal,
+  Reveal,
+  RevealAssignment,
+  RevealEntropy,
+  RevealMetadata,
+  saveReveal,
+} from "../utils/revealStore";
+import {
+  CreateRevealRequest,
+  MAX_REVEAL_SIZE,
+  RevealManifestEntry,
+  revealManifestEntrySchema,
+  RunRevealRequest,
+} from "../schemas/reveal";
+import {
+  ConflictError,
+  FieldError,
+  GoneError,
+  NotFoundError,
+  toApiError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi, getConnection } from "../utils/rpcPool";
+
+interface RevealView {
+  id: string;
+  collection: string;
+  method: Reveal["method"];
+  status: Reveal["status"];
+  total: number;
+  revealed: number;
+  failed: number;
+  pending: number;
+  seedHash?: string;
+  metadataHash?: string;
+  entropy?: RevealEntropy; // Once locked, the blockhash once it is used
+  seed?: string; // Only once every asset is revealed
+  metadata?: RevealMetadata[]; // Only once every asset is revealed
+  assignments?: RevealAssignment[]; // Only once every asset is revealed
+  createdAt: string;
+  updatedAt: string;
+  revealedAt?: string;
+}
+
+interface RunRevealResponse extends RevealView {
+  jobId: string;
+}
+
+interface Chunk {
+  builder: TransactionBuilder;
+  indexes: number[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const FETCH_PAGE_SIZE = 100; // One getMultipleAccounts call per page
+// About a minute of slots between locking and the block mixed into the seed
+const ENTROPY_SLOT_DELAY = 150;
+// Skipped slots have no block, the first one produced in this range is used
+const ENTROPY_SLOT_RANGE = 100;
+
+// Reveals being locked or run by this process, a second call would race it
+const running = new Set<string>();
+
+/**
+ * Which asset gets which metadata, and the seed and list that decided it,
+ * stay hidden until the reveal is done
+ */
+const toRevealView = (reveal: Reveal): RevealView => {
+  const count = (status: RevealAssignment["status"]) =>
+    reveal.assignments.filter((assignment) => assignment.status === status)
+      .length;
+  const done = reveal.status === "revealed";
+  // Shuffles get their assignments only once the entropy block is known
+  const total = reveal.assignments.length || (reveal.metadata?.length ?? 0);
+
+  return {
+    id: reveal.id,
+    collection: reveal.collection,
+    method: reveal.method,
+    status: reveal.status,
+    total,
+    revealed: count("revealed"),
+    failed: count("failed"),
+    pending: total - count("revealed") - count("failed"),
+    seedHash: reveal.seedHash,
+    metadataHash: reveal.metadataHash,
+    entropy: reveal.entropy,
+    seed: done ? reveal.seed : undefined,
+    metadata: done ? reveal.metadata : undefined,
+    assignments: done ? reveal.assignments : undefined,
+    createdAt: reveal.createdAt,
+    updatedAt: reveal.updatedAt,
+    revealedAt: reveal.revealedAt,
+  };
+};
+
+/**
+ * Reads `asset,uri,name` rows, the name is optional and so is a header row
+ */
+function parseManifestCsv(csv: string): RevealManifestEntry[] {
+  const rows = parseCsv(csv);
+  if (rows[0]?.cells[0].toLowerCase() === "asset") {
+    rows.shift();
+  }
+
+  const errors: FieldError[] = [];
+  const entries: RevealManifestEntry[] = [];
+  rows.forEach(({ line, cells }) => {
+    // Unquoted names may still hold commas
+    const name = cells.slice(2).join(", ");
+    const result = revealManifestEntrySchema.safeParse({
+      asset: cells[0],
+      uri: cells[1],
+      name: name || undefined,
+    });
+    if (result.success) {
+      entries.push(result.data);
+    } else {
+      result.error.issues.forEach((issue) =>
+        errors.push({
+          path: `csv.${line}.${issue.path.join(".")}`,
+          message: issue.message,
+        })
+      );
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid manifest CSV", errors);
+  }
+  return entries;
+}
+
+// Every asset of the collection, sorted by address
+const fetchSortedAssets = async (umi: Umi, collection: UmiPublicKey) =>
+  (
+    await collectionAssetsQuery(umi, collection).withoutData().getPublicKeys()
+  ).sort();
+
+/**
+ * Plans the reveal of a collection minted with placeholder metadata. The
+ * final metadata of each asset either comes from a manifest for assets that
+ * exist, or a shuffle is committed to before the mint: the server picks a
+ * secret seed and only the hashes of the seed and of the posted metadata
+ * list are published. See lockReveal and runReveal for the rest.
+ */
+export async function createReveal(
+  req: Request<{}, {}, CreateRevealRequest>,
+  res: Response<ApiResponse<RevealView>>
+) {
+  try {
+    const {
+      collection,
+      method,
+      manifest: listed = [],
+      metadata = [],
+      cluster,
+      rpcEndpoint,
+      clientId,
+    } = req.body;
+
+    const umi = createRpcUmi(req.body).use(mplCore());
+    const collectionKey = publicKey(collection);
+
+    // Fails with ACCOUNT_NOT_FOUND instead of an empty plan for bad input
+    await fetchCollection(umi, collectionKey);
+
+    const now = new Date().toISOString();
+    const reveal: Reveal = {
+      id: randomUUID(),
+      clientId,
+      collection,
+      network: { cluster, rpcEndpoint },
+      method,
+      status: method === "manifest" ? "planned" : "committed",
+      assignments: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (method === "manifest") {
+      const assets = await fetchSortedAssets(umi, collectionKey);
+      if (assets.length === 0) {
+        throw new ValidationError("Collection has no assets to reveal");
+      }
+
+      const entries = req.file
+        ? [...listed, ...parseManifestCsv(req.file.buffer.toString("utf8"))]
+        : listed;
+      if (entries.length === 0) {
+        throw new ValidationError("No manifest given", [
+          { path: "manifest", message: "Provide manifest or a csv file" },
+        ]);
+      }
+      if (entries.length > MAX_REVEAL_SIZE) {
+        throw new ValidationError("Manifest is too long", [
+          {
+            path: "manifest",
+            message: `At most ${MAX_REVEAL_SIZE} entries per reveal`,
+          },
+        ]);
+      }
+
+      const inCollection = new Set<string>(assets);
+      const seen = new Set<string>();
+      const errors: FieldError[] = [];
+      entries.forEach(({ asset }, index) => {
+        if (!inCollection.has(asset)) {
+          errors.push({
+            path: `manifest.${index}.asset`,
+            message: "Not an asset of this collection",
+          });
+        } else if (seen.has(asset)) {
+          errors.push({
+            path: `manifest.${index}.asset`,
+            message: "Listed more than once",
+          });
+        }
+        seen.add(asset);
+      });
+      if (errors.length > 0) {
+        throw new ValidationError("Invalid manifest", errors);
+      }
+
+      reveal.assignments = entries.map(({ asset, uri, name }) => ({
+        asset,
+        uri,
+        name,
+        status: "pending",
+      }));
+    } else {
+      // Nobody, the server included, can know the outcome yet: the assets
+      // and the block mixed into the seed do not exist
+      const seed = randomBytes(32).toString("hex");
+      reveal.seed = seed;
+      reveal.seedHash = sha256Hex(seed);
+      reveal.metadata = metadata.map(({ uri, name }) => ({ uri, name }));
+      // Commits to the list as posted, so it cannot be reordered later
+      reveal.metadataHash = sha256Hex(JSON.stringify(reveal.metadata));
+    }
+
+    await saveReveal(reveal);
+
+    return sendSuccess(res, toRevealView(reveal), 201);
+  } catch (error) {
+    console.error("Reveal planning error:", error);
+    return sendError(res, error);
+  }
+}
+
+/**
+ * Fixes the assets of a committed shuffle once the mint is over, along with
+ * a slot a little in the future whose block hash goes into the seed. The
+ * outcome is then out of anyone's hands: the seed was committed before the
+ * mint and the block does not exist yet.
+ */
+export async function lockReveal(
+  req: Request,
+  res: Response<ApiResponse<RevealView>>
+) {
+  const { id } = req.params;
+  let locked = false;
+
+  try {
+    const reveal = await getReveal(id);
+    if (!reveal) {
+      throw new NotFoundError("Reveal not found");
+    }
+    if (reveal.status !== "committed") {
+      throw new ConflictError(
+        reveal.method === "shuffle"
+          ? "This reveal is already locked"
+          : "Only shuffle reveals are locked"
+      );
+    }
+    if (running.has(id)) {
+      throw new ConflictError("This reveal is already being locked");
+    }
+    running.add(id);
+    locked = true;
+
+    const umi = createRpcUmi(reveal.network).use(mplCore());
+    const assets = await fetchSortedAssets(umi, publicKey(reveal.collection));
+    const expected = reveal.metadata!.length;
+    if (assets.length !== expected) {
+      throw new ValidationError("Assets do not match the committed metadata", [
+        {
+          path: "id",
+          message: `Expected ${expected} assets, found ${assets.length}`,
+        },
+      ]);
+    }
+
+    const slot = await getConnection(reveal.network).getSlot("confirmed");
+    reveal.assets = assets;
+    reveal.entropy = { slot: slot + ENTROPY_SLOT_DELAY };
+    reveal.status = "locked";
+    await saveReveal(reveal);
+
+    return sendSuccess(res, toRevealView(reveal));
+  } catch (error) {
+    console.error("Reveal lock error:", error);
+    return sendError(res, error);
+  } finally {
+    if (locked) running.delete(id);
+  }
+}
+
+/**
+ * Shuffles the committed metadata onto the locked assets. The seed is
+ * `<seed>:<blockhash>`, with the hash of the first finalized block at or
+ * after the entropy slot, so anyone can repeat it once the seed is public.
+ */
+async function assignShuffle(reveal: Reveal) {
+  const connection = getConnection(reveal.network);
+  const entropy = reveal.entropy!;
+  const lastSlot = entropy.slot + ENTROPY_SLOT_RANGE;
+  const [blockSlot] = await connection.getBlocks(
+    entropy.slot,
+    lastSlot,
+    "finalized"
+  );
+  const block =
+    blockSlot === undefined
+      ? null
+      : await connection.getBlock(blockSlot, {
+          commitment: "finalized",
+          maxSupportedTransactionVersion: 0,
+          transactionDetails: "none",
+          rewards: false,
+        });
+  if (!block) {
+    // An empty range that is entirely finalized never fills up, the node
+    // has dropped those blocks from its history
+    if ((await connection.getSlot("finalized")) < lastSlot) {
+      throw new ConflictError(
+        `Slot ${entropy.slot} is not finalized yet, run the reveal again soon`
+      );
+    }
+    throw new GoneError(
+      `No block from slot ${entropy.slot} to ${lastSlot} is available, ` +
+        "the RPC node no longer keeps them"
+    );
+  }
+
+  entropy.blockSlot = blockSlot;
+  entropy.blockhash = block.blockhash;
+  const shuffled = seededShuffle(
+    reveal.metadata!,
+    `${reveal.seed}:${block.blockhash}`
+  );
+  reveal.assignments = reveal.assets!.map((asset, index) => ({
+    asset,
+    uri: shuffled[index].uri,
+    name: shuffled[index].name,
+    status: "pending",
+  }));
+  reveal.status = "planned";
+  await saveReveal(reveal);
+}
+
+/**
+ * Updates every asset of a planned reveal to its final metadata, packing as
+ * many updates into each transaction as fit. A locked shuffle is assigned
+ * first, once its entropy slot is finalized. Progress is saved after every
+ * transaction, so running an interrupted reveal again only sends what is
+ * left.
+ */
+export async function runReveal(
+  req: Request,
+  res: Response<ApiResponse<RunRevealResponse>>
+) {
+  const { id } = req.params;
+  const {
+    signerId,
+    concurrency = DEFAULT_CONCURRENCY,
+    clientId,
+  }: RunRevealRequest = req.body;
+  const job = createJob(
+    "reveal",
+    clientId,
+    { ...req.body, revealId: id },
+    callerId(res)
+  );
+  let reveal: Reveal | null = null;
+  let locked = false;
+
+  try {
+    reveal = await getReveal(id);
+    if (!reveal) {
+      throw new NotFoundError("Reveal not found");
+    }
+    if (reveal.status === "revealed") {
+      throw new ConflictError("Every asset of this reveal is already revealed");
+    }
+    if (reveal.status === "committed") {
+      throw new ConflictError("Lock the reveal once the mint is over");
+    }
+    if (running.has(id)) {
+      throw new ConflictError("This reveal is already running");
+    }
+    running.add(id);
+    locked = true;
+
+    if (reveal.status === "locked") {
+      await assignShuffle(reveal);
+    }
+
+    const { assignments } = reveal;
+    const total = assignments.length;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "reveal",
+      status: "started",
+      message:
+        reveal.status === "planned"
+          ? `Starting reveal of ${total} assets`
+          : "Resuming reveal",
+    });
+
+    const umi = createRpcUmi(reveal.network).use(mplCore());
+    const wallet = resolveWalletSigner(
+      umi,
+      { signerId },
+      signerAccess(res),
+      job.id
+    );
+    umi.use(signerIdentity(wallet.signer));
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "reveal",
+      status: "progress",
+      step: "fetching",
+      progress: 5,
+      message: "Fetching collection and assets",
+    });
+
+    const collection = await fetchCollection(umi, publicKey(reveal.collection));
+
+    reveal.status = "revealing";
+    await saveReveal(reveal);
+
+    const remaining = assignments
+      .map((assignment, index) => ({ assignment, index }))
+      .filter(({ assignment }) => assignment.status !== "revealed");
+    let settled = total - remaining.length;
+    const reportItems = (indexes: number[]) => {
+      settled += indexes.length;
+      indexes.forEach((index) => {
+        const assignment = assignments[index];
+        sendProgressUpdate(clientId, {
+          jobId: job.id,
+          type: "reveal",
+          status: "progress",
+          step: "revealing",
+          progress: 10 + Math.round((settled / total) * 90),
+          message: `Asset ${index + 1} of ${total} ${assignment.status}`,
+          item: {
+            index,
+            status: assignment.status === "revealed" ? "revealed" : "failed",
+            address: assignment.asset,
+            error: assignment.error,
+          },
+        });
+      });
+    };
+
+    const touched: number[] = [];
+    const chunks: Chunk[] = [];
+
+    for (let start = 0; start < remaining.length; start += FETCH_PAGE_SIZE) {
+      const page = remaining.slice(start, start + FETCH_PAGE_SIZE);
+      const assets = new Map(
+        (
+          await safeFetchAllAssetV1(
+            umi,
+            page.map(({ assignment }) => publicKey(assignment.asset))
+          )
+        ).map((asset) => [asset.publicKey.toString(), asset])
+      );
+
+      const skipped: number[] = [];
+      page.forEach(({ assignment, index }) => {
+        touched.push(index);
+        const asset = assets.get(assignment.asset);
+        if (!asset || collectionAddress(asset) !== collection.publicKey) {
+          assignment.status = "failed";
+          assignment.error = asset
+            ? "Asset is no longer in the collection"
+            : "Asset no longer exists";
+          skipped.push(index);
+          return;
+        }
+
+        // A run that stopped after sending but before saving got this far
+        if (
+          asset.uri === assignment.uri &&
+          (!assignment.name || asset.name === assignment.name)
+        ) {
+          assignment.status = "revealed";
+          assignment.error = undefined;
+          skipped.push(index);
+          return;
+        }
+
+        const itemBuilder = update(umi, {
+          asset,
+          collection,
+          name: assignment.name,
+          uri: assignment.uri,
+          authority: wallet.signer,
+        });
+        const last = chunks[chunks.length - 1];
+        const packed = last?.builder.add(itemBuilder);
+        if (last && packed!.fitsInOneTransaction(umi)) {
+          last.builder = packed!;
+          last.indexes.push(index);
+        } else {
+          chunks.push({ builder: itemBuilder, indexes: [index] });
+        }
+      });
+      reportItems(skipped);
+    }
+
+    await saveReveal(reveal);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "reveal",
+      status: "progress",
+      step: "revealing",
+      progress: 10 + Math.round((settled / total) * 90),
+      message: `Packed ${chunks.reduce(
+        (sum, chunk) => sum + chunk.indexes.length,
+        0
+      )} updates into ${chunks.length} transactions`,
+    });
+
+    await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+      try {
+        const tx = await chunk.builder.sendAndConfirm(umi);
+        const signature = bs58.encode(tx.signature);
+        chunk.indexes.forEach((index) => {
+          assignments[index].status = "revealed";
+          assignments[index].signature = signature;
+          assignments[index].error = undefined;
+        });
+      } catch (error) {
+        // A failed transaction only fails the assets packed into it
+        console.error("Reveal chunk error:", error);
+        const apiError = toApiError(error);
+        chunk.indexes.forEach((index) => {
+          assignments[index].status = "failed";
+          assignments[index].error = apiError.message;
+        });
+      }
+      await saveReveal(reveal!);
+      reportItems(chunk.indexes);
+    });
+
+    const failed = assignments.filter(({ status }) => status === "failed");
+    reveal.status = failed.length === 0 ? "revealed" : "incomplete";
+    if (reveal.status === "revealed") {
+      reveal.revealedAt = new Date().toISOString();
+    }
+    await saveReveal(reveal);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "reveal",
+      status: "completed",
+      progress: 100,
+      message:
+        failed.length === 0
+          ? "Reveal finished"
+          : `Reveal stopped with ${failed.length} of ${total} assets ` +
+            "failed, run it again to retry them",
+    });
+
+    completeJob(job.id, {
+      address: reveal.collection,
+      items: touched.map((index) => ({
+        address: assignments[index].asset,
+        signature: assignments[index].signature,
+        error: assignments[index].error,
+      })),
+    });
+
+    return sendSuccess<RunRevealResponse>(res, {
+      jobId: job.id,
+      ...toRevealView(reveal),
+    });
+  } catch (error) {
+    const apiError = toApiError(error);
+    // Reveals that never started sending keep their status
+    if (reveal && locked && reveal.status === "revealing") {
+      reveal.status = "incomplete";
+      await saveReveal(reveal).catch((saveError) =>
+        console.error(`Failed to persist reveal ${id}:`, saveError)
+      );
+    }
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "reveal",
+      status: "error",
+      message: `Reveal failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+    console.error("Reveal error:", error);
+    return sendError(res, apiError);
+  } finally {
+    if (locked) running.delete(id);
+  }
+}
+
+/**
+ * Status of a reveal, with the assignments and seed once it is done
+ */
+export async function getRevealStatus(
+  req: Request,
+  res: Response<ApiResponse<RevealView>>
+) {
+  try {
+    const reveal = await getReveal(req.params.id);
+    if (!reveal) {
+      throw new NotFoundError("Reveal not found");
+    }
+    return sendSuccess(res, toRevealView(reveal));
+  } catch (error) {
+    console.error("Reveal lookup error:", error);
+    return sendError(res, error);
+  }
+}
+
+// Example request bodies
+/*
+POST /reveal
+{
+  "cluster": "mainnet",
+  "collection": "EJRG9dgrFhKwMbdr1zPx77hLoq2gG1sxD8wW5nWDNHwR",
+  "method": "shuffle",
+  "metadata": [
+    { "name": "My NFT #1", "uri": "https://arweave.net/final-uri-1" },
+    { "name": "My NFT #2", "uri": "https://arweave.net/final-uri-2" }
+  ]
+}
+
+POST /reveal/:id/lock, once the mint is over
+
+POST /reveal/:id/run
+{
+  "signerId": "treasury",
+  "concurrency": 4
+}
+*/
@@ -0,0 +1,23 @@
+import { Request, Response } from "express";
+import { getRpcMetrics as collectRpcMetrics } from "../utils/rpcPool";
+import { sendError, sendSuccess } from "../utils/response";
+
+/**
+ * Health and counters of every RPC endpoint in use, plus the latest calls
+ * with the endpoint that served each of them
+ */
+export async function getRpcMetrics(req: Request, res: Response) {
+  try {
+    const metrics = collectRpcMetrics();
+    const requestId = req.query.requestId;
+    if (typeof requestId === "string" && requestId) {
+      metrics.recentCalls = metrics.recentCalls.filter(
+        (call) => call.requestId === requestId
+      );
+    }
+    return sendSuccess(res, metrics);
+  } catch (error) {
+    console.error("RPC metrics error:", error);
+    return sendError(res, error);
+  }
+}
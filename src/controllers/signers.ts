@@ -0,0 +1,20 @@
+import { Request, Response } from "express";
+import { keystore } from "../utils/keystore";
+import { signerAccess } from "../middlewares/auth";
+import { sendError, sendSuccess } from "../utils/response";
+
+/**
+ * Ids and public keys of the keystore signers the API key may sign with
+ */
+export async function listSigners(req: Request, res: Response) {
+  try {
+    const access = signerAccess(res);
+    const signers = keystore
+      .list()
+      .filter(({ id }) => access === "all" || access.includes(id));
+    return sendSuccess(res, { signers });
+  } catch (error) {
+    console.error("Signer listing error:", error);
+    return sendError(res, error);
+  }
+}
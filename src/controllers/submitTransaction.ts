@@ -0,0 +1,285 @@
+import { Request, Response } from "express";
+import {
+  Commitment,
+  TransactionSignature,
+  Umi,
+} from "@metaplex-foundation/umi";
+import { Connection } from "@solana/web3.js";
+import bs58 from "bs58";
+import { sendProgressUpdate } from "../utils/progress";
+import { SubmitTransactionRequest } from "../schemas/transaction";
+import { completeJob, createJob, failJob } from "../utils/jobStore";
+import { callerId } from "../middlewares/auth";
+import {
+  BlockhashExpiredError,
+  toApiError,
+  TransactionFailedError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse, sendError, sendSuccess } from "../utils/response";
+import { createRpcUmi, getConnection } from "../utils/rpcPool";
+import {
+  PreparedTransactionWatcher,
+  takePreparedTransaction,
+} from "../utils/preparedTransactions";
+
+interface SubmitTransactionResponse {
+  jobId: string;
+  signature: string;
+  // "pending" when the response gave up waiting, progress keeps coming over
+  // SSE and the job records the outcome
+  status: Commitment | "pending";
+}
+
+const POLL_INTERVAL_MS = 1000;
+// How long the request waits for confirmation before answering "pending"
+const RESPONSE_TIMEOUT_MS = 20_000;
+const FINALIZATION_TIMEOUT_MS = 90_000;
+
+const COMMITMENT_PROGRESS: Record<Commitment, number> = {
+  processed: 50,
+  confirmed: 75,
+  finalized: 100,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A sent transaction whose confirmation is being followed
+interface TrackedTransaction {
+  umi: Umi;
+  connection: Connection;
+  clientId: string;
+  jobId: string;
+  signature: TransactionSignature;
+  blockhash: string;
+  reached: Set<Commitment>;
+  watcher?: PreparedTransactionWatcher; // Set when this server prepared it
+}
+
+// "expired" means the blockhash is gone without the transaction landing, so
+// it never will. "pending" means the outcome is not known yet.
+type ConfirmationResult =
+  | { outcome: "reached"; status: Commitment }
+  | { outcome: "failed"; error: string }
+  | { outcome: "expired" }
+  | { outcome: "pending" };
+
+/**
+ * Polls the signature status and reports every commitment level it reaches.
+ * Resolves as soon as `until` is reached, an on-chain error is found, the
+ * blockhash expires or `timeoutMs` passes.
+ */
+async function trackConfirmation(
+  tracked: TrackedTransaction,
+  until: Commitment,
+  timeoutMs: number
+): Promise<ConfirmationResult> {
+  const { umi, connection, clientId, jobId, signature, reached } = tracked;
+  const order: Commitment[] = ["processed", "confirmed", "finalized"];
+  const deadline = Date.now() + timeoutMs;
+
+  const poll = async (): Promise<ConfirmationResult | null> => {
+    const [status] = await umi.rpc.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+
+    if (status?.error) {
+      return { outcome: "failed", error: JSON.stringify(status.error) };
+    }
+    if (!status?.commitment) return null;
+
+    const level = order.indexOf(status.commitment);
+    for (const commitment of order.slice(0, level + 1)) {
+      if (reached.has(commitment)) continue;
+      reached.add(commitment);
+      if (commitment === "confirmed") {
+        tracked.watcher?.confirmed(bs58.encode(signature));
+      }
+      sendProgressUpdate(clientId, {
+        jobId,
+        type: "transaction",
+        status: commitment === "finalized" ? "completed" : "progress",
+        step: commitment,
+        progress: COMMITMENT_PROGRESS[commitment],
+        message: `Transaction ${commitment}`,
+      });
+    }
+    return level >= order.indexOf(until)
+      ? { outcome: "reached", status: status.commitment }
+      : null;
+  };
+
+  while (Date.now() < deadline) {
+    const result = await poll();
+    if (result) return result;
+
+    // Not seen at all, it can only still land while its blockhash is valid
+    if (reached.size === 0) {
+      const { value: valid } = await connection.isBlockhashValid(
+        tracked.blockhash,
+        { commitment: "processed" }
+      );
+      // Look once more, it may have landed just before the blockhash expired
+      if (!valid) return (await poll()) ?? { outcome: "expired" };
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  return { outcome: "pending" };
+}
+
+/**
+ * Records how tracking a transaction in the background ended. Only an
+ * on-chain error or an expired blockhash fail the job, a confirmed one that
+ * was not seen finalized in time still counts as landed.
+ */
+function reportFinalization(
+  { clientId, jobId, signature, reached, watcher }: TrackedTransaction,
+  final: ConfirmationResult
+) {
+  const encodedSignature = bs58.encode(signature);
+  if (final.outcome === "reached" || reached.has("confirmed")) {
+    completeJob(jobId, { signature: encodedSignature });
+    return;
+  }
+
+  const error =
+    final.outcome === "failed"
+      ? new TransactionFailedError(`Transaction failed: ${final.error}`)
+      : final.outcome === "expired"
+      ? new BlockhashExpiredError()
+      : null;
+  if (!error) {
+    // Neither landed nor expired yet, the signature can be looked up later
+    failJob(
+      jobId,
+      `Stopped tracking ${encodedSignature} before it was confirmed`
+    );
+    return;
+  }
+  watcher?.failed(error, encodedSignature);
+  sendProgressUpdate(clientId, {
+    jobId,
+    type: "transaction",
+    status: "error",
+    message: error.message,
+    error: error.message,
+    code: error.code,
+  });
+}
+
+/**
+ * Broadcasts a transaction signed by the client wallet and reports its
+ * confirmation over SSE. Responds once the transaction is confirmed, or with
+ * "pending" when that takes too long, and keeps reporting until it is
+ * finalized.
+ */
+export async function submitTransaction(
+  req: Request<{}, {}, SubmitTransactionRequest>,
+  res: Response<ApiResponse<SubmitTransactionResponse>>
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("transaction", clientId, req.body, callerId(res));
+  let watcher: PreparedTransactionWatcher | undefined;
+
+  try {
+    const { transaction } = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "transaction",
+      status: "started",
+      message: "Submitting transaction",
+    });
+
+    const umi = createRpcUmi(req.body);
+
+    let deserialized;
+    try {
+      deserialized = umi.transactions.deserialize(
+        new Uint8Array(Buffer.from(transaction, "base64"))
+      );
+    } catch (error) {
+      throw new ValidationError(
+        "Invalid transaction format. Must be a base64 serialized transaction."
+      );
+    }
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "transaction",
+      status: "progress",
+      step: "sending",
+      progress: 25,
+      message: "Sending transaction",
+    });
+
+    watcher = takePreparedTransaction(deserialized);
+    const signature = await umi.rpc.sendTransaction(deserialized);
+    const encodedSignature = bs58.encode(signature);
+    watcher?.sent(encodedSignature);
+
+    const tracked: TrackedTransaction = {
+      umi,
+      connection: getConnection(req.body),
+      clientId,
+      jobId: job.id,
+      signature,
+      blockhash: deserialized.message.blockhash,
+      reached: new Set(),
+      watcher,
+    };
+    const result = await trackConfirmation(
+      tracked,
+      "confirmed",
+      RESPONSE_TIMEOUT_MS
+    );
+
+    if (result.outcome === "failed") {
+      throw new TransactionFailedError(`Transaction failed: ${result.error}`, {
+        signature: encodedSignature,
+      });
+    }
+    if (result.outcome === "expired") {
+      throw new BlockhashExpiredError();
+    }
+
+    if (result.outcome === "reached" && result.status === "finalized") {
+      completeJob(job.id, { signature: encodedSignature });
+    } else {
+      // Keep reporting until finalization without holding the response
+      trackConfirmation(tracked, "finalized", FINALIZATION_TIMEOUT_MS)
+        .then((final) => reportFinalization(tracked, final))
+        .catch((error) => {
+          console.error("Error tracking finalization:", error);
+        });
+    }
+
+    // 202 as the transaction may still land or fail
+    return sendSuccess<SubmitTransactionResponse>(
+      res,
+      {
+        jobId: job.id,
+        signature: encodedSignature,
+        status: result.outcome === "reached" ? result.status : "pending",
+      },
+      result.outcome === "reached" ? 200 : 202
+    );
+  } catch (error) {
+    console.error("Error in submitTransaction:", error);
+    const apiError = toApiError(error);
+    watcher?.failed(apiError);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "transaction",
+      status: "error",
+      message: apiError.message,
+      error: apiError.message,
+      code: apiError.code,
+    });
+
+    return sendError(res, apiError);
+  }
+}
@@ -0,0 +1,128 @@
+import { Request, Response } from "express";
+import { createGenericFile } from "@metaplex-foundation/umi";
+import { sendProgressUpdate } from "../utils/progress";
+import { completeJob, createJob } from "../utils/jobStore";
+import { callerId } from "../middlewares/auth";
+import { createUploaderUmi } from "../utils/uploader";
+import { UploadMetadataRequest } from "../schemas/upload";
+import { toApiError, ValidationError } from "../utils/errors";
+import { sendError, sendSuccess } from "../utils/response";
+
+/**
+ * Uploads an image, builds Metaplex standard JSON pointing at it and uploads
+ * that too. The returned `uri` can be passed straight to the create/mint
+ * endpoints.
+ */
+export async function uploadMetadata(
+  req: Request<{}, {}, UploadMetadataRequest>,
+  res: Response
+) {
+  const clientId = req.body.clientId;
+  const job = createJob("upload", clientId, req.body, callerId(res));
+
+  try {
+    const { name, symbol, description, external_url, attributes } = req.body;
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "started",
+      message: "Starting metadata upload",
+    });
+
+    if (!req.file) {
+      throw new ValidationError("An image file is required", [
+        { path: "image", message: "Required" },
+      ]);
+    }
+
+    const umi = createUploaderUmi(job.id);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "progress",
+      step: "uploading_image",
+      progress: 20,
+      message: "Uploading image",
+    });
+
+    const image = createGenericFile(
+      new Uint8Array(req.file.buffer),
+      req.file.originalname,
+      { contentType: req.file.mimetype }
+    );
+    const [imageUri] = await umi.uploader.upload([image]);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "progress",
+      step: "building_metadata",
+      progress: 60,
+      message: "Building metadata",
+    });
+
+    const metadata = {
+      name,
+      ...(symbol ? { symbol } : {}),
+      description,
+      image: imageUri,
+      ...(external_url ? { external_url } : {}),
+      attributes: attributes ?? [],
+      properties: {
+        files: [{ uri: imageUri, type: req.file.mimetype }],
+        category: "image",
+      },
+    };
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "progress",
+      step: "uploading_metadata",
+      progress: 80,
+      message: "Uploading metadata",
+    });
+
+    const uri = await umi.uploader.uploadJson(metadata);
+
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "completed",
+      progress: 100,
+      message: "Metadata uploaded successfully",
+    });
+
+    completeJob(job.id, { uri });
+
+    return sendSuccess(res, {
+      jobId: job.id,
+      uri,
+      imageUri,
+      metadata,
+    });
+  } catch (error) {
+    const apiError = toApiError(error);
+    sendProgressUpdate(clientId, {
+      jobId: job.id,
+      type: "upload",
+      status: "error",
+      message: `Metadata upload failed: ${apiError.message}`,
+      code: apiError.code,
+    });
+    console.error("Metadata upload error:", error);
+    return sendError(res, apiError);
+  }
+}
+
+// Example request (multipart/form-data)
+/*
+curl -X POST http://localhost:3000/api/upload/metadata \
+  -F "image=@./image.png" \
+  -F "name=My NFT" \
+  -F "description=An NFT" \
+  -F 'attributes=[{"trait_type":"Background","value":"Blue"}]' \
+  -F "clientId=your-client-id"
+*/
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { config } from "../config";
+import {
+  ApiKey,
+  consumeMintQuota,
+  findActiveApiKey,
+  hashApiKey,
+  refundMintQuota,
+  Scope,
+} from "../utils/apiKeyStore";
+import { SignerAccess } from "../utils/keystore";
+import {
+  ForbiddenError,
+  QuotaExceededError,
+  RateLimitedError,
+  UnauthorizedError,
+} from "../utils/errors";
+
+// Who made the request, kept in `res.locals.apiKey` for later middlewares
+export interface Caller {
+  id: string;
+  name: string;
+  scopes: Scope[] | "all";
+  signerIds: SignerAccess;
+  rateLimitPerMinute?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+// Fixed one-minute windows per key, in memory so they reset on restart
+const windows = new Map<string, { start: number; count: number }>();
+
+const isAdminKey = (key: string) => {
+  const { adminKey } = config.auth;
+  if (!adminKey) return false;
+  // Compare hashes so the lengths always match
+  return timingSafeEqual(
+    Buffer.from(hashApiKey(key), "hex"),
+    Buffer.from(hashApiKey(adminKey), "hex")
+  );
+};
+
+const toCaller = ({
+  id,
+  name,
+  scopes,
+  signerIds = [],
+  rateLimitPerMinute,
+}: ApiKey): Caller => ({ id, name, scopes, signerIds, rateLimitPerMinute });
+
+// EventSource cannot set headers, streams may pass the key as a query token
+const tokenFromQuery = (req: Request) =>
+  typeof req.query.access_token === "string"
+    ? req.query.access_token
+    : undefined;
+
+function identify(req: Request, allowQueryToken: boolean): Caller {
+  const [scheme, header] = (req.headers.authorization ?? "").split(" ");
+  const key =
+    scheme === "Bearer" ? header : allowQueryToken ? tokenFromQuery(req) : "";
+  if (!key) {
+    throw new UnauthorizedError();
+  }
+
+  // The admin key from the environment can do anything, e.g. issue keys
+  if (isAdminKey(key)) {
+    return { id: "admin", name: "admin", scopes: "all", signerIds: "all" };
+  }
+
+  const apiKey = findActiveApiKey(key);
+  if (!apiKey) {
+    throw new UnauthorizedError("Unknown or revoked API key");
+  }
+  return toCaller(apiKey);
+}
+
+function checkRateLimit(caller: Caller, res: Response) {
+  const limit = caller.rateLimitPerMinute ?? config.auth.rateLimitPerMinute;
+  const now = Date.now();
+  let window = windows.get(caller.id);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(caller.id, window);
+  }
+  window.count += 1;
+
+  const resetSeconds = Math.ceil((window.start + WINDOW_MS - now) / 1000);
+  res.setHeader("X-RateLimit-Limit", limit);
+  res.setHeader("X-RateLimit-Remaining", Math.max(limit - window.count, 0));
+  res.setHeader("X-RateLimit-Reset", resetSeconds);
+
+  if (window.count > limit) {
+    res.setHeader("Retry-After", resetSeconds);
+    throw new RateLimitedError(resetSeconds);
+  }
+}
+
+/**
+ * Requires a `Bearer` API key holding `scope` and counts the request
+ * against the key's rate limit. With `queryToken` the key may instead come
+ * in the `access_token` query parameter. Set AUTH_DISABLED=true to skip it
+ * locally.
+ */
+export const requireScope =
+  (scope: Scope, { queryToken = false }: { queryToken?: boolean } = {}) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (config.auth.disabled) return next();
+
+    try {
+      const caller = identify(req, queryToken);
+      checkRateLimit(caller, res);
+      if (caller.scopes !== "all" && !caller.scopes.includes(scope)) {
+        throw new ForbiddenError(`API key lacks the "${scope}" scope`);
+      }
+      res.locals.apiKey = caller;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * API key jobs and event streams of the request belong to, none when auth
+ * is off
+ */
+export const callerId = (res: Response): string | undefined =>
+  (res.locals.apiKey as Caller | undefined)?.id;
+
+/**
+ * Whether the caller may see jobs of every key, true for admin keys and
+ * when auth is off
+ */
+export const seesAllJobs = (res: Response): boolean => {
+  const caller: Caller | undefined = res.locals.apiKey;
+  return (
+    !caller || caller.scopes === "all" || caller.scopes.includes("admin")
+  );
+};
+
+/**
+ * Keystore signers the caller may sign with, any of them when auth is off
+ */
+export const signerAccess = (res: Response): SignerAccess =>
+  (res.locals.apiKey as Caller | undefined)?.signerIds ?? "all";
+
+/**
+ * Counts the mints a request makes against the key's daily quota. Goes after
+ * body validation so `count` can trust the parsed body. The mints are held
+ * while the handler runs, so concurrent requests cannot pass the quota, and
+ * given back when it fails. Handlers that only make some of them set
+ * `res.locals.mintsMade`.
+ */
+export const requireMintQuota =
+  (count: (req: Request) => number) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const caller: Caller | undefined = res.locals.apiKey;
+    // No key when auth is disabled, and the admin key has no quota
+    if (!caller || caller.scopes === "all") return next();
+
+    const mints = count(req);
+    const remaining = consumeMintQuota(caller.id, mints);
+    if (remaining === null) {
+      return next(
+        new QuotaExceededError("Daily mint quota exceeded", {
+          requested: mints,
+        })
+      );
+    }
+    if (Number.isFinite(remaining)) {
+      res.setHeader("X-Mint-Quota-Remaining", remaining);
+    }
+
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      const made: number =
+        res.statusCode >= 400 ? 0 : res.locals.mintsMade ?? mints;
+      if (made < mints) refundMintQuota(caller.id, mints - made);
+    };
+    res.on("finish", settle);
+    // A client that disconnects early never gets "finish". The handler
+    // still answers into the closed socket, settle once it has.
+    res.on("close", () => {
+      if (res.writableEnded) return settle();
+      const end = res.end.bind(res) as (...args: unknown[]) => Response;
+      res.end = ((...args: unknown[]) => {
+        settle();
+        return end(...args);
+      }) as Response["end"];
+    });
+    next();
+  };
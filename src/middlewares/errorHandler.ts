@@ -1,4 +1,11 @@
 import { Request, Response, NextFunction } from "express";
+import { MulterError } from "multer";
+import {
+  ApiError,
+  asThrownError,
+  ValidationError,
+} from "../utils/errors";
+import { sendError } from "../utils/response";
 
 export const errorHandler = (
   err: Error,
@@ -6,15 +13,35 @@ export const errorHandler = (
   res: Response,
   next: NextFunction
 ): void => {
-  if (err.name === "ValidationError") {
-    res.status(400).json({
-      success: false,
-      error: err.message,
-    });
-  } else {
-    res.status(500).json({
-      success: false,
-      error: "Internal server error",
-    });
+  if (err.name === "ValidationError" && !(err instanceof ApiError)) {
+    sendError(res, new ValidationError(err.message));
+    return;
   }
+
+  // Malformed JSON bodies rejected by body-parser
+  if (asThrownError(err)?.type === "entity.parse.failed") {
+    sendError(
+      res,
+      new ValidationError("Request body is not valid JSON", [
+        { path: "body", message: err.message },
+      ])
+    );
+    return;
+  }
+
+  // Rejected multipart uploads, e.g. a file over the size limit
+  if (err instanceof MulterError) {
+    sendError(
+      res,
+      new ValidationError(err.message, [
+        { path: err.field ?? "file", message: err.message },
+      ])
+    );
+    return;
+  }
+
+  if (!(err instanceof ApiError)) {
+    console.error("Unhandled error:", err);
+  }
+  sendError(res, err);
 };
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { rpcRequestContext } from "../utils/rpcPool";
+
+/**
+ * Tags each request with an X-Request-Id. RPC calls made while handling it
+ * are recorded under the same id in the RPC metrics.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const id = randomUUID();
+  res.setHeader("X-Request-Id", id);
+  rpcRequestContext.run({ requestId: id }, next);
+};
@@ -1,41 +1,136 @@
 import { Request, Response, NextFunction } from "express";
+import { callerId } from "./auth";
 
 export interface SSEClient {
   id: string;
   response: Response;
+  heartbeat?: NodeJS.Timeout;
 }
 
+export interface SSEEvent {
+  id: number;
+  event?: string;
+  data: any;
+}
+
+interface ClientBuffer {
+  nextId: number;
+  events: SSEEvent[];
+  lastActivity: number;
+}
+
+const BUFFER_SIZE = 100;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// How long events are kept for a client that is not connected
+const BUFFER_TTL_MS = 15 * 60_000;
+
+const formatEvent = ({ id, event, data }: SSEEvent) =>
+  `id: ${id}\n${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(
+    data
+  )}\n\n`;
+
 class SSEManager {
   private clients: Map<string, SSEClient>;
+  private buffers: Map<string, ClientBuffer>;
 
   constructor() {
     this.clients = new Map();
+    this.buffers = new Map();
+
+    setInterval(() => this.pruneBuffers(), BUFFER_TTL_MS).unref();
   }
 
   addClient(client: SSEClient) {
+    // A reconnect replaces the previous stream for the same client
+    const previous = this.clients.get(client.id);
+    if (previous && previous.response !== client.response) {
+      clearInterval(previous.heartbeat);
+    }
+
+    client.heartbeat = setInterval(() => {
+      client.response.write(`: heartbeat ${Date.now()}\n\n`);
+    }, HEARTBEAT_INTERVAL_MS);
+
     this.clients.set(client.id, client);
+    this.getBuffer(client.id).lastActivity = Date.now();
   }
 
-  removeClient(clientId: string) {
+  removeClient(clientId: string, response?: Response) {
+    const client = this.clients.get(clientId);
+    // Ignore a late close from a stream that was already replaced
+    if (!client || (response && client.response !== response)) return;
+
+    clearInterval(client.heartbeat);
     this.clients.delete(clientId);
+    this.getBuffer(clientId).lastActivity = Date.now();
+  }
+
+  /**
+   * Writes every buffered event after `lastEventId` to the client's stream
+   */
+  replay(clientId: string, lastEventId: number) {
+    const client = this.clients.get(clientId);
+    const buffer = this.buffers.get(clientId);
+    if (!client || !buffer) return;
+
+    buffer.events
+      .filter((event) => event.id > lastEventId)
+      .forEach((event) => client.response.write(formatEvent(event)));
   }
 
   sendToClient(clientId: string, data: any) {
+    const buffer = this.getBuffer(clientId);
+    const event: SSEEvent = {
+      id: buffer.nextId++,
+      event: typeof data?.type === "string" ? data.type : undefined,
+      data,
+    };
+
+    // Buffer even when disconnected so a reconnect can pick it up
+    buffer.events.push(event);
+    if (buffer.events.length > BUFFER_SIZE) {
+      buffer.events.shift();
+    }
+    buffer.lastActivity = Date.now();
+
     const client = this.clients.get(clientId);
     if (client) {
-      client.response.write(`data: ${JSON.stringify(data)}\n\n`);
+      client.response.write(formatEvent(event));
     }
   }
 
   broadcast(data: any) {
     this.clients.forEach((client) => {
-      client.response.write(`data: ${JSON.stringify(data)}\n\n`);
+      this.sendToClient(client.id, data);
+    });
+  }
+
+  private getBuffer(clientId: string): ClientBuffer {
+    let buffer = this.buffers.get(clientId);
+    if (!buffer) {
+      buffer = { nextId: 1, events: [], lastActivity: Date.now() };
+      this.buffers.set(clientId, buffer);
+    }
+    return buffer;
+  }
+
+  private pruneBuffers() {
+    const cutoff = Date.now() - BUFFER_TTL_MS;
+    this.buffers.forEach((buffer, clientId) => {
+      if (!this.clients.has(clientId) && buffer.lastActivity < cutoff) {
+        this.buffers.delete(clientId);
+      }
     });
   }
 }
 
 export const sseManager = new SSEManager();
 
+// Streams are kept per API key, so keys that pick the same clientId never
+// see each other's events
+export const streamKey = (owner: string | undefined, clientId: string) =>
+  `${owner ?? ""}:${clientId}`;
+
 export const sseMiddleware = (
   req: Request,
   res: Response,
@@ -47,19 +142,36 @@ export const sseMiddleware = (
   res.flushHeaders();
 
   const clientId = req.params.clientId || Date.now().toString();
+  const key = streamKey(callerId(res), clientId);
 
   const client: SSEClient = {
-    id: clientId,
+    id: key,
     response: res,
   };
 
   sseManager.addClient(client);
 
   // Send initial connection message
-  res.write(`data: ${JSON.stringify({ type: "connected", clientId })}\n\n`);
+  res.write(
+    `event: connected\ndata: ${JSON.stringify({
+      type: "connected",
+      clientId,
+    })}\n\n`
+  );
+
+  // Replay what the client missed since its last received event. Browsers
+  // send the header on reconnect, the query parameter covers manual resumes
+  // and a first connection gets everything sent before it arrived.
+  const lastEventId = Number(
+    req.header("Last-Event-ID") ?? req.query.lastEventId ?? 0
+  );
+  sseManager.replay(
+    key,
+    Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : 0
+  );
 
   // Handle client disconnect
   req.on("close", () => {
-    sseManager.removeClient(clientId);
+    sseManager.removeClient(key, res);
   });
 };
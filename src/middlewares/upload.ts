@@ -0,0 +1,48 @@
+import multer from "multer";
+import { ValidationError } from "../utils/errors";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_CSV_BYTES = 1024 * 1024;
+const CSV_TYPES = ["text/csv", "text/plain", "application/vnd.ms-excel"];
+
+/**
+ * Accepts a single `image` file field and keeps it in memory for upload
+ */
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!file.mimetype.startsWith("image/")) {
+      return callback(
+        new ValidationError("Uploaded file must be an image", [
+          {
+            path: file.fieldname,
+            message: `Unsupported type ${file.mimetype}`,
+          },
+        ])
+      );
+    }
+    callback(null, true);
+  },
+}).single("image");
+
+/**
+ * Accepts an optional `csv` file field, e.g. an airdrop recipient list
+ */
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CSV_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!CSV_TYPES.includes(file.mimetype)) {
+      return callback(
+        new ValidationError("Uploaded file must be a CSV file", [
+          {
+            path: file.fieldname,
+            message: `Unsupported type ${file.mimetype}`,
+          },
+        ])
+      );
+    }
+    callback(null, true);
+  },
+}).single("csv");
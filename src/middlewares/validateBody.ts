@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from "express";
+import { ZodTypeAny } from "zod";
+import { ValidationError } from "../utils/errors";
+
+type RequestPart = "body" | "params" | "query";
+
+const MESSAGES: Record<RequestPart, string> = {
+  body: "Invalid request body",
+  params: "Invalid path parameters",
+  query: "Invalid query parameters",
+};
+
+/**
+ * Validates one part of the request against a schema and replaces it with
+ * the parsed value. Every failing field is reported at once.
+ */
+const validateRequest =
+  (part: RequestPart, schema: ZodTypeAny) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req[part]);
+
+    if (!result.success) {
+      const details = result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }));
+      return next(new ValidationError(MESSAGES[part], details));
+    }
+
+    req[part] = result.data;
+    next();
+  };
+
+export const validateBody = (schema: ZodTypeAny) =>
+  validateRequest("body", schema);
+
+export const validateParams = (schema: ZodTypeAny) =>
+  validateRequest("params", schema);
+
+export const validateQuery = (schema: ZodTypeAny) =>
+  validateRequest("query", schema);
@@ -1,106 +1,359 @@
-import { Request, Response, NextFunction } from 'express';
-import axios from 'axios';
+import { Request, Response, NextFunction } from "express";
+import { config, MetadataValidationMode } from "../config";
+import { FieldError, ValidationError } from "../utils/errors";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { fetchPublicUrl, toHttpUrl } from "../utils/publicFetch";
 
+interface MetadataFile {
+  uri: string;
+  type: string;
+  cdn?: boolean;
+}
+
+// Metaplex token metadata JSON standard
 interface NFTMetadata {
   name: string;
+  symbol?: string;
   description: string;
   image: string;
+  animation_url?: string;
+  external_url?: string;
   attributes?: Array<{
     trait_type: string;
     value: string | number;
   }>;
+  properties?: {
+    files?: MetadataFile[];
+    category?: string;
+  };
 }
 
-export const validateTokenMetadata = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
+interface ValidateTokenMetadataOptions {
+  mode?: MetadataValidationMode;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+const CATEGORIES = ["image", "video", "audio", "vr", "html"];
+const BATCH_CONCURRENCY = 5;
+
+const isUrl = (value: unknown) => {
+  if (typeof value !== "string") return false;
   try {
-    const { uri } = req.body;
+    const { protocol } = new URL(toHttpUrl(value));
+    return protocol === "https:" || protocol === "http:";
+  } catch (error) {
+    return false;
+  }
+};
 
-    if (!uri) {
-      const error = new Error('URI is required');
-      error.name = 'ValidationError';
-      return next(error);
+/**
+ * Fetches the metadata JSON, giving up after `timeoutMs` or once the body
+ * grows past `maxBytes`
+ */
+async function fetchMetadata(
+  uri: string,
+  timeoutMs: number,
+  maxBytes: number
+): Promise<unknown> {
+  const response = await fetchPublicUrl(uri, {
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Metadata URI responded with ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    throw new Error(`Metadata must not exceed ${maxBytes} bytes`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body!.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Metadata must not exceed ${maxBytes} bytes`);
     }
+    chunks.push(value);
+  }
 
-    // Fetch metadata from the URI
-    const response = await axios.get(uri);
-    const metadata: NFTMetadata = response.data;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch (error) {
+    throw new Error("Metadata is not valid JSON");
+  }
+}
 
-    const errors: string[] = [];
+async function checkImage(uri: string, timeoutMs: number): Promise<string> {
+  let response = await fetchPublicUrl(uri, {
+    method: "HEAD",
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  // Some hosts do not implement HEAD, only look at the headers of a GET
+  if (response.status === 405 || response.status === 501) {
+    response = await fetchPublicUrl(uri, {
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+  }
+  if (!response.ok) {
+    throw new Error(`Image URL responded with ${response.status}`);
+  }
+  return response.headers.get("content-type") ?? "";
+}
 
-    // Required fields validation
-    if (!metadata.name) {
-      errors.push('Metadata must include a name');
-    }
+async function checkMetadata(
+  metadata: NFTMetadata,
+  expectedSymbol: string | undefined,
+  timeoutMs: number
+): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  const fail = (path: string, message: string) =>
+    errors.push({ path: `metadata.${path}`, message });
 
-    if (!metadata.description) {
-      errors.push('Metadata must include a description');
-    }
+  // Required fields validation
+  if (!metadata.name) {
+    fail("name", "Metadata must include a name");
+  }
 
-    if (!metadata.image) {
-      errors.push('Metadata must include an image URL');
-    }
+  if (!metadata.description) {
+    fail("description", "Metadata must include a description");
+  }
 
-    // Name validation
-    if (metadata.name && (metadata.name.length < 1 || metadata.name.length > 50)) {
-      errors.push('Name must be between 1 and 50 characters');
-    }
+  if (!metadata.image) {
+    fail("image", "Metadata must include an image URL");
+  }
+
+  // Name validation
+  if (
+    metadata.name &&
+    (typeof metadata.name !== "string" || metadata.name.length > 32)
+  ) {
+    fail("name", "Name must be a string of at most 32 characters");
+  }
 
-    // Description validation
-    if (metadata.description && metadata.description.length > 1000) {
-      errors.push('Description must not exceed 1000 characters');
+  // Symbol validation, it has to agree with what goes on chain
+  if (metadata.symbol !== undefined) {
+    if (typeof metadata.symbol !== "string" || metadata.symbol.length > 10) {
+      fail("symbol", "Symbol must be a string of at most 10 characters");
+    } else if (expectedSymbol && metadata.symbol !== expectedSymbol) {
+      fail(
+        "symbol",
+        `Symbol "${metadata.symbol}" does not match "${expectedSymbol}"`
+      );
     }
+  } else if (expectedSymbol) {
+    fail("symbol", "Metadata must include the requested symbol");
+  }
+
+  // Description validation
+  if (metadata.description && metadata.description.length > 1000) {
+    fail("description", "Description must not exceed 1000 characters");
+  }
 
-    // Image URL validation
-    if (metadata.image) {
+  // Image URL validation
+  if (metadata.image) {
+    if (!isUrl(metadata.image)) {
+      fail("image", "Image must be a valid URL");
+    } else {
       try {
-        const imageResponse = await axios.head(metadata.image);
-        const contentType = imageResponse.headers['content-type'];
-        if (!contentType?.startsWith('image/')) {
-          errors.push('Image URL must point to a valid image file');
+        const contentType = await checkImage(metadata.image, timeoutMs);
+        if (!contentType.startsWith("image/")) {
+          fail("image", "Image URL must point to a valid image file");
         }
       } catch (error) {
-        errors.push('Image URL is not accessible');
+        fail("image", "Image URL is not accessible");
       }
     }
+  }
+
+  if (
+    metadata.animation_url !== undefined &&
+    !isUrl(metadata.animation_url)
+  ) {
+    fail("animation_url", "animation_url must be a valid URL");
+  }
+
+  if (metadata.external_url !== undefined && !isUrl(metadata.external_url)) {
+    fail("external_url", "external_url must be a valid URL");
+  }
+
+  // Attributes validation (if present)
+  if (metadata.attributes) {
+    if (!Array.isArray(metadata.attributes)) {
+      fail("attributes", "Attributes must be an array");
+    } else {
+      metadata.attributes.forEach((attr, index) => {
+        const path = `attributes.${index}`;
+        if (typeof attr?.trait_type !== "string" || !attr.trait_type) {
+          fail(path, "Attribute trait_type must be a non-empty string");
+        }
+        if (
+          typeof attr?.value !== "string" &&
+          typeof attr?.value !== "number"
+        ) {
+          fail(path, "Attribute value must be a string or number");
+        }
+      });
+    }
+  }
 
-    // Attributes validation (if present)
-    if (metadata.attributes) {
-      if (!Array.isArray(metadata.attributes)) {
-        errors.push('Attributes must be an array');
+  // Properties validation (if present)
+  if (metadata.properties !== undefined) {
+    const { files, category } = metadata.properties ?? {};
+    if (category !== undefined && !CATEGORIES.includes(category)) {
+      fail(
+        "properties.category",
+        `Category must be one of ${CATEGORIES.join(", ")}`
+      );
+    }
+    if (files !== undefined) {
+      if (!Array.isArray(files)) {
+        fail("properties.files", "Files must be an array");
       } else {
-        metadata.attributes.forEach((attr, index) => {
-          if (!attr.trait_type || !attr.value) {
-            errors.push(`Attribute at index ${index} must have trait_type and value`);
-          }
-          if (typeof attr.trait_type !== 'string') {
-            errors.push(`Attribute trait_type at index ${index} must be a string`);
+        files.forEach((file, index) => {
+          const path = `properties.files.${index}`;
+          if (!isUrl(file?.uri)) {
+            fail(`${path}.uri`, "File uri must be a valid URL");
           }
-          if (typeof attr.value !== 'string' && typeof attr.value !== 'number') {
-            errors.push(`Attribute value at index ${index} must be a string or number`);
+          if (typeof file?.type !== "string" || !file.type.includes("/")) {
+            fail(`${path}.type`, "File type must be a MIME type");
           }
         });
       }
     }
+  }
 
-    if (errors.length > 0) {
-      const error = new Error(errors.join(', '));
-      error.name = 'ValidationError';
-      return next(error);
-    }
+  return errors;
+}
+
+interface MetadataCheck {
+  metadata?: object; // Set once the JSON was fetched and parsed
+  errors: FieldError[];
+}
 
-    // Add validated metadata to request for use in subsequent middleware/controllers
-    req.body.metadata = metadata;
-    next();
+/**
+ * Fetches the metadata JSON behind `uri` and runs every check on it, fetch
+ * failures are reported against `uri`
+ */
+async function checkMetadataUri(
+  uri: string,
+  expectedSymbol: string | undefined,
+  timeoutMs: number,
+  maxBytes: number
+): Promise<MetadataCheck> {
+  try {
+    const metadata = await fetchMetadata(uri, timeoutMs, maxBytes);
+    if (!metadata || typeof metadata !== "object") {
+      throw new Error("Metadata must be a JSON object");
+    }
+    const errors = await checkMetadata(
+      metadata as NFTMetadata,
+      expectedSymbol,
+      timeoutMs
+    );
+    return { metadata, errors };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const customError = new Error('Failed to fetch metadata from URI');
-      customError.name = 'ValidationError';
-      return next(customError);
+    const message =
+      error instanceof Error && error.name === "TimeoutError"
+        ? "Timed out fetching metadata from URI"
+        : `Failed to fetch metadata from URI: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+    return { errors: [{ path: "uri", message }] };
+  }
+}
+
+// Rejects the request in strict mode, otherwise adds the errors as warnings
+function reportErrors(
+  errors: FieldError[],
+  mode: MetadataValidationMode,
+  res: Response,
+  next: NextFunction
+) {
+  if (errors.length > 0) {
+    if (mode === "strict") {
+      return next(new ValidationError("Invalid token metadata", errors));
     }
-    next(error);
+    res.locals.warnings = [
+      ...(res.locals.warnings ?? []),
+      ...errors.map((error) => `${error.path}: ${error.message}`),
+    ];
   }
-};
\ No newline at end of file
+  next();
+}
+
+/**
+ * Fetches the metadata JSON behind the request's `uri` (or `metadata.uri`
+ * when minting) and checks it against the Metaplex standard before anything
+ * is paid for on chain. The parsed JSON is left in `res.locals.metadata`.
+ */
+export const validateTokenMetadata =
+  ({
+    mode = config.metadataValidationMode,
+    timeoutMs = 10_000,
+    maxBytes = 1024 * 1024,
+  }: ValidateTokenMetadataOptions = {}) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const uri: string | undefined = req.body.uri ?? req.body.metadata?.uri;
+
+      if (!uri) {
+        return next(
+          new ValidationError("URI is required", [
+            { path: "uri", message: "Required" },
+          ])
+        );
+      }
+
+      const { metadata, errors } = await checkMetadataUri(
+        uri,
+        req.body.symbol,
+        timeoutMs,
+        maxBytes
+      );
+      // Keep the validated metadata for subsequent middleware/controllers
+      if (metadata) res.locals.metadata = metadata;
+
+      reportErrors(errors, mode, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Runs the same checks on every `items[].uri` of a batch mint, a few URIs at
+ * a time and each distinct URI once. Errors point at the item, e.g.
+ * `items.3.metadata.image`.
+ */
+export const validateBatchMetadata =
+  ({
+    mode = config.metadataValidationMode,
+    timeoutMs = 10_000,
+    maxBytes = 1024 * 1024,
+    concurrency = BATCH_CONCURRENCY,
+  }: ValidateTokenMetadataOptions & { concurrency?: number } = {}) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const items: Array<{ uri: string }> = req.body.items;
+      const uris = [...new Set(items.map((item) => item.uri))];
+      const checks = await mapWithConcurrency(uris, concurrency, (uri) =>
+        checkMetadataUri(uri, undefined, timeoutMs, maxBytes)
+      );
+      const byUri = new Map(uris.map((uri, index) => [uri, checks[index]]));
+
+      const errors = items.flatMap((item, index) =>
+        byUri.get(item.uri)!.errors.map((error) => ({
+          path: `items.${index}.${error.path}`,
+          message: error.message,
+        }))
+      );
+      reportErrors(errors, mode, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
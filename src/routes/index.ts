@@ -1,14 +1,115 @@
 import express, { Request, Response } from "express";
 import { createToken } from "../controllers/createToken";
 import { deployCollection } from "../controllers/deployCollection";
+import {
+  setCollectionUpdateAuthority,
+  updateCollectionDetails,
+} from "../controllers/manageCollection";
 import { mintCollectionNFT } from "../controllers/mintNFT";
-import { validateTokenMetadata } from "../middlewares/validateTokenMetadata";
+import { mintCollectionNFTBatch } from "../controllers/mintNFTBatch";
+import {
+  burnAsset,
+  moveAsset,
+  transferAsset,
+  updateAsset,
+} from "../controllers/manageAsset";
+import {
+  burnTokens,
+  freezeTokenAccount,
+  mintTokens,
+  setTokenAuthority,
+  thawTokenAccount,
+} from "../controllers/manageToken";
+import { airdropTokens } from "../controllers/airdropTokens";
+import { submitTransaction } from "../controllers/submitTransaction";
+import {
+  configureDrop,
+  createDropChallenge,
+  getDrop,
+  mintFromDrop,
+} from "../controllers/drops";
+import {
+  createReveal,
+  getRevealStatus,
+  lockReveal,
+  runReveal,
+} from "../controllers/reveal";
+import { getJob, listJobs } from "../controllers/jobs";
+import {
+  exportHolderSnapshot,
+  listCollectionAssets,
+} from "../controllers/collectionHolders";
+import {
+  getAsset,
+  getCollection,
+  getToken,
+} from "../controllers/readAccounts";
+import { uploadMetadata } from "../controllers/uploadMetadata";
+import { listSigners } from "../controllers/signers";
+import { getRpcMetrics } from "../controllers/rpcMetrics";
+import { createApiKey, deleteApiKey, getApiKeys } from "../controllers/apiKeys";
+import {
+  validateBatchMetadata,
+  validateTokenMetadata,
+} from "../middlewares/validateTokenMetadata";
 import { sseMiddleware } from "../middlewares/sse";
+import { requireMintQuota, requireScope } from "../middlewares/auth";
+import { csvUpload, imageUpload } from "../middlewares/upload";
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+} from "../middlewares/validateBody";
+import {
+  burnTokensSchema,
+  createTokenSchema,
+  mintTokensSchema,
+  setTokenAuthoritySchema,
+  tokenAccountSchema,
+} from "../schemas/token";
+import {
+  collectionAuthoritySchema,
+  collectionSchema,
+  updateCollectionSchema,
+} from "../schemas/collection";
+import { batchMintSchema, mintNFTSchema } from "../schemas/nft";
+import {
+  burnAssetSchema,
+  moveAssetSchema,
+  transferAssetSchema,
+  updateAssetSchema,
+} from "../schemas/asset";
+import { submitTransactionSchema } from "../schemas/transaction";
+import {
+  dropChallengeSchema,
+  dropConfigSchema,
+  dropMintSchema,
+  dropParamsSchema,
+} from "../schemas/drop";
+import {
+  createRevealSchema,
+  revealParamsSchema,
+  runRevealSchema,
+} from "../schemas/reveal";
+import { uploadMetadataSchema } from "../schemas/upload";
+import { airdropSchema } from "../schemas/airdrop";
+import {
+  addressParamsSchema,
+  collectionAssetsQuerySchema,
+  holderSnapshotQuerySchema,
+  mintParamsSchema,
+  readQuerySchema,
+} from "../schemas/read";
+import { apiKeyParamsSchema, issueApiKeySchema } from "../schemas/apiKey";
 
 const router = express.Router();
 
-// SSE endpoint
-router.get("/events/:clientId", sseMiddleware);
+// SSE endpoint, EventSource sends the API key as ?access_token=
+router.get(
+  "/events/:clientId",
+  requireScope("read", { queryToken: true }),
+  sseMiddleware
+);
 
 // Basic route
 router.get("/", (req: Request, res: Response): void => {
@@ -16,22 +117,384 @@ router.get("/", (req: Request, res: Response): void => {
 });
 
 // Endpoint to create a token
-// router.post("/create/token", validateTokenMetadata, async (req, res) => {
-router.post("/create/token", async (req, res) => {
-  console.log("In Create Token");
-  await createToken(req, res);
-});
+router.post(
+  "/create/token",
+  requireScope("token:create"),
+  validateBody(createTokenSchema),
+  validateTokenMetadata(),
+  async (req, res) => {
+    console.log("In Create Token");
+    await createToken(req, res);
+  }
+);
+
+// Token lifecycle endpoints, each returns a transaction for the wallet to sign
+router.post(
+  "/token/mint",
+  requireScope("token:manage"),
+  validateBody(mintTokensSchema),
+  async (req, res) => {
+    console.log("In Mint Tokens");
+    await mintTokens(req, res);
+  }
+);
+
+router.post(
+  "/token/burn",
+  requireScope("token:manage"),
+  validateBody(burnTokensSchema),
+  async (req, res) => {
+    console.log("In Burn Tokens");
+    await burnTokens(req, res);
+  }
+);
+
+router.post(
+  "/token/freeze",
+  requireScope("token:manage"),
+  validateBody(tokenAccountSchema),
+  async (req, res) => {
+    console.log("In Freeze Token Account");
+    await freezeTokenAccount(req, res);
+  }
+);
+
+router.post(
+  "/token/thaw",
+  requireScope("token:manage"),
+  validateBody(tokenAccountSchema),
+  async (req, res) => {
+    console.log("In Thaw Token Account");
+    await thawTokenAccount(req, res);
+  }
+);
+
+router.post(
+  "/token/authority",
+  requireScope("token:manage"),
+  validateBody(setTokenAuthoritySchema),
+  async (req, res) => {
+    console.log("In Set Token Authority");
+    await setTokenAuthority(req, res);
+  }
+);
+
+// Endpoint to send a fungible token to many wallets, JSON or CSV recipients
+router.post(
+  "/token/airdrop",
+  requireScope("token:manage"),
+  csvUpload,
+  validateBody(airdropSchema),
+  async (req, res) => {
+    console.log("In Airdrop Tokens");
+    await airdropTokens(req, res);
+  }
+);
 
 // Endpoint to create an NFT collection
-router.post("/create/collection", async (req, res) => {
-  console.log("In Create Collection");
-  await deployCollection(req, res);
-});
+router.post(
+  "/create/collection",
+  requireScope("collection:create"),
+  validateBody(collectionSchema),
+  validateTokenMetadata(),
+  async (req, res) => {
+    console.log("In Create Collection");
+    await deployCollection(req, res);
+  }
+);
+
+// Collection administration, the response shows what changes on chain
+router.post(
+  "/collection/update",
+  requireScope("collection:manage"),
+  validateBody(updateCollectionSchema),
+  async (req, res) => {
+    console.log("In Update Collection");
+    await updateCollectionDetails(req, res);
+  }
+);
+
+router.post(
+  "/collection/authority",
+  requireScope("collection:manage"),
+  validateBody(collectionAuthoritySchema),
+  async (req, res) => {
+    console.log("In Set Collection Authority");
+    await setCollectionUpdateAuthority(req, res);
+  }
+);
 
 // Endpoint to mint an NFT
-router.post("/mint/nft", async (req, res) => {
-  console.log("In Mint NFT");
-  await mintCollectionNFT(req, res);
+router.post(
+  "/mint/nft",
+  requireScope("nft:mint"),
+  validateBody(mintNFTSchema),
+  validateTokenMetadata(),
+  requireMintQuota((req) => (req.body.dryRun ? 0 : 1)),
+  async (req, res) => {
+    console.log("In Mint NFT");
+    await mintCollectionNFT(req, res);
+  }
+);
+
+// Endpoint to mint many NFTs into one collection
+router.post(
+  "/mint/nft/batch",
+  requireScope("nft:mint"),
+  validateBody(batchMintSchema),
+  validateBatchMetadata(),
+  requireMintQuota((req) => req.body.items.length),
+  async (req, res) => {
+    console.log("In Mint NFT Batch");
+    await mintCollectionNFTBatch(req, res);
+  }
+);
+
+// Asset lifecycle endpoints, signed on the server or returned for the wallet
+router.post(
+  "/asset/update",
+  requireScope("asset:manage"),
+  validateBody(updateAssetSchema),
+  async (req, res) => {
+    console.log("In Update Asset");
+    await updateAsset(req, res);
+  }
+);
+
+router.post(
+  "/asset/transfer",
+  requireScope("asset:manage"),
+  validateBody(transferAssetSchema),
+  async (req, res) => {
+    console.log("In Transfer Asset");
+    await transferAsset(req, res);
+  }
+);
+
+router.post(
+  "/asset/burn",
+  requireScope("asset:manage"),
+  validateBody(burnAssetSchema),
+  async (req, res) => {
+    console.log("In Burn Asset");
+    await burnAsset(req, res);
+  }
+);
+
+router.post(
+  "/asset/move",
+  requireScope("asset:manage"),
+  validateBody(moveAssetSchema),
+  async (req, res) => {
+    console.log("In Move Asset");
+    await moveAsset(req, res);
+  }
+);
+
+// Public sales: the collection authority configures a drop, buyers mint
+router.post(
+  "/drops",
+  requireScope("collection:manage"),
+  validateBody(dropConfigSchema),
+  validateTokenMetadata(),
+  async (req, res) => {
+    console.log("In Configure Drop");
+    await configureDrop(req, res);
+  }
+);
+
+router.get(
+  "/drops/:collection",
+  requireScope("read"),
+  validateParams(dropParamsSchema),
+  async (req, res) => {
+    await getDrop(req, res);
+  }
+);
+
+// The buyer signs the returned message, proving they hold the wallet
+router.post(
+  "/drops/:collection/challenge",
+  requireScope("drop:mint"),
+  validateParams(dropParamsSchema),
+  validateBody(dropChallengeSchema),
+  async (req, res) => {
+    await createDropChallenge(req, res);
+  }
+);
+
+router.post(
+  "/drops/:collection/mint",
+  requireScope("drop:mint"),
+  validateParams(dropParamsSchema),
+  validateBody(dropMintSchema),
+  requireMintQuota(() => 1),
+  async (req, res) => {
+    console.log("In Drop Mint");
+    await mintFromDrop(req, res);
+  }
+);
+
+// Delayed reveal: plan or commit to the metadata, lock shuffles once the
+// mint is over, then run it
+router.post(
+  "/reveal",
+  requireScope("collection:manage"),
+  csvUpload,
+  validateBody(createRevealSchema),
+  async (req, res) => {
+    console.log("In Create Reveal");
+    await createReveal(req, res);
+  }
+);
+
+router.post(
+  "/reveal/:id/lock",
+  requireScope("collection:manage"),
+  validateParams(revealParamsSchema),
+  async (req, res) => {
+    console.log("In Lock Reveal");
+    await lockReveal(req, res);
+  }
+);
+
+router.post(
+  "/reveal/:id/run",
+  requireScope("collection:manage"),
+  validateParams(revealParamsSchema),
+  validateBody(runRevealSchema),
+  async (req, res) => {
+    console.log("In Run Reveal");
+    await runReveal(req, res);
+  }
+);
+
+router.get(
+  "/reveal/:id",
+  requireScope("read"),
+  validateParams(revealParamsSchema),
+  async (req, res) => {
+    await getRevealStatus(req, res);
+  }
+);
+
+// Endpoint to submit a client-signed transaction
+router.post(
+  "/submit",
+  requireScope("transaction:submit"),
+  validateBody(submitTransactionSchema),
+  async (req, res) => {
+    console.log("In Submit Transaction");
+    await submitTransaction(req, res);
+  }
+);
+
+// Endpoint to upload an image and its metadata JSON
+router.post(
+  "/upload/metadata",
+  requireScope("metadata:upload"),
+  imageUpload,
+  validateBody(uploadMetadataSchema),
+  async (req, res) => {
+    console.log("In Upload Metadata");
+    await uploadMetadata(req, res);
+  }
+);
+
+// Read endpoints for accounts on chain
+router.get(
+  "/token/:mint",
+  requireScope("read"),
+  validateParams(mintParamsSchema),
+  validateQuery(readQuerySchema),
+  async (req, res) => {
+    await getToken(req, res);
+  }
+);
+
+router.get(
+  "/collection/:address",
+  requireScope("read"),
+  validateParams(addressParamsSchema),
+  validateQuery(readQuerySchema),
+  async (req, res) => {
+    await getCollection(req, res);
+  }
+);
+
+// Paged assets of a collection and a snapshot of who holds them
+router.get(
+  "/collection/:address/assets",
+  requireScope("read"),
+  validateParams(addressParamsSchema),
+  validateQuery(collectionAssetsQuerySchema),
+  async (req, res) => {
+    await listCollectionAssets(req, res);
+  }
+);
+
+router.get(
+  "/collection/:address/holders",
+  requireScope("read"),
+  validateParams(addressParamsSchema),
+  validateQuery(holderSnapshotQuerySchema),
+  async (req, res) => {
+    await exportHolderSnapshot(req, res);
+  }
+);
+
+router.get(
+  "/asset/:address",
+  requireScope("read"),
+  validateParams(addressParamsSchema),
+  validateQuery(readQuerySchema),
+  async (req, res) => {
+    await getAsset(req, res);
+  }
+);
+
+// Keystore signers requests can refer to by signerId
+router.get("/signers", requireScope("read"), async (req, res) => {
+  await listSigners(req, res);
 });
 
+// Health and usage of the RPC endpoints behind each cluster
+router.get("/rpc/metrics", requireScope("admin"), async (req, res) => {
+  await getRpcMetrics(req, res);
+});
+
+// Job status endpoints
+router.get("/jobs", requireScope("read"), async (req, res) => {
+  await listJobs(req, res);
+});
+
+router.get("/jobs/:id", requireScope("read"), async (req, res) => {
+  await getJob(req, res);
+});
+
+// Admin endpoints to issue, list and revoke API keys
+router.post(
+  "/admin/keys",
+  requireScope("admin"),
+  validateBody(issueApiKeySchema),
+  async (req, res) => {
+    console.log("In Issue API Key");
+    await createApiKey(req, res);
+  }
+);
+
+router.get("/admin/keys", requireScope("admin"), async (req, res) => {
+  await getApiKeys(req, res);
+});
+
+router.delete(
+  "/admin/keys/:id",
+  requireScope("admin"),
+  validateParams(apiKeyParamsSchema),
+  async (req, res) => {
+    console.log("In Revoke API Key");
+    await deleteApiKey(req, res);
+  }
+);
+
 export default router;
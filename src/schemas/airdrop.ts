@@ -0,0 +1,29 @@
+import { z } from "zod";
+import {
+  clientIdSchema,
+  jsonField,
+  networkFields,
+  positiveUiAmountSchema,
+  publicKeySchema,
+} from "./common";
+
+export const MAX_AIRDROP_RECIPIENTS = 1000;
+
+export const airdropRecipientSchema = z.object({
+  recipient: publicKeySchema,
+  amount: positiveUiAmountSchema,
+});
+
+// Recipients come as JSON, or as a `csv` file next to the multipart fields
+export const airdropSchema = z.object({
+  mint: publicKeySchema,
+  publicKey: publicKeySchema, // Wallet the tokens are sent from
+  recipients: jsonField(
+    z.array(airdropRecipientSchema).max(MAX_AIRDROP_RECIPIENTS).optional()
+  ),
+  ...networkFields,
+  clientId: clientIdSchema,
+});
+
+export type AirdropRecipient = z.infer<typeof airdropRecipientSchema>;
+export type AirdropRequest = z.infer<typeof airdropSchema>;
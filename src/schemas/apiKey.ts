@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { SCOPES } from "../utils/apiKeyStore";
+
+export const issueApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+  // Keystore signers requests with the key may name in signerId
+  signerIds: z.array(z.string().min(1)).optional(),
+  // Requests a minute, API_RATE_LIMIT_PER_MINUTE applies when omitted
+  rateLimitPerMinute: z.number().int().positive().optional(),
+  dailyMintQuota: z.number().int().nonnegative().optional(), // None if unset
+});
+
+export const apiKeyParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export type IssueApiKeyRequest = z.infer<typeof issueApiKeySchema>;
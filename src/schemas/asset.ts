@@ -0,0 +1,56 @@
+import { z } from "zod";
+import {
+  clientIdSchema,
+  networkFields,
+  publicKeySchema,
+  requireSigner,
+  signerFields,
+  uriSchema,
+} from "./common";
+
+// Shared by every endpoint that manages an existing mpl-core asset
+const assetManagementFields = {
+  ...networkFields,
+  ...signerFields, // The owner or update authority, depending on the action
+  asset: publicKeySchema,
+  clientId: clientIdSchema,
+};
+
+export const updateAssetSchema = z
+  .object({
+    ...assetManagementFields,
+    name: z.string().min(1).max(32).optional(),
+    uri: uriSchema.optional(),
+  })
+  .superRefine(requireSigner)
+  .refine((body) => body.name !== undefined || body.uri !== undefined, {
+    path: ["name"],
+    message: "At least one of name or uri is required",
+  });
+
+export const transferAssetSchema = z
+  .object({
+    ...assetManagementFields,
+    newOwner: publicKeySchema,
+  })
+  .superRefine(requireSigner);
+
+export const burnAssetSchema = z
+  .object(assetManagementFields)
+  .superRefine(requireSigner);
+
+// Both collections must share the update authority that signs
+export const moveAssetSchema = z
+  .object({
+    ...assetManagementFields,
+    newCollection: publicKeySchema,
+  })
+  .superRefine(requireSigner);
+
+export type AssetManagementRequest = z.infer<
+  z.ZodObject<typeof assetManagementFields>
+>;
+export type UpdateAssetRequest = z.infer<typeof updateAssetSchema>;
+export type TransferAssetRequest = z.infer<typeof transferAssetSchema>;
+export type BurnAssetRequest = z.infer<typeof burnAssetSchema>;
+export type MoveAssetRequest = z.infer<typeof moveAssetSchema>;
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+  basisPointsSchema,
+  clientIdSchema,
+  dryRunSchema,
+  networkFields,
+  publicKeySchema,
+  requireSigner,
+  requireTotalShare,
+  signerFields,
+  uriSchema,
+} from "./common";
+import { collectionPluginsSchema } from "./plugins";
+
+const creatorSchema = z.object({
+  address: publicKeySchema,
+  percentage: z.number().int().min(0).max(100),
+});
+
+export const collectionSchema = z
+  .object({
+    name: z.string().min(1).max(32),
+    uri: uriSchema,
+    royaltyBasisPoints: basisPointsSchema.optional(),
+    creators: z
+      .array(creatorSchema)
+      .max(5)
+      .optional()
+      .superRefine(requireTotalShare((creator) => creator.percentage)),
+    // A Royalties entry here replaces the one built from the fields above
+    plugins: collectionPluginsSchema.optional(),
+    ...signerFields,
+    ...networkFields,
+    dryRun: dryRunSchema,
+    clientId: clientIdSchema,
+  })
+  .superRefine(requireSigner)
+  .superRefine((body, ctx) => {
+    const royalties = body.plugins?.some(({ type }) => type === "Royalties");
+    if (royalties && (body.royaltyBasisPoints !== undefined || body.creators)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["plugins"],
+        message:
+          "Set royalties either with a Royalties plugin or with " +
+          "royaltyBasisPoints and creators, not both",
+      });
+    }
+  });
+
+// Shared by the endpoints that change an existing collection
+const collectionManagementFields = {
+  collection: publicKeySchema,
+  ...signerFields, // The collection's current update authority
+  ...networkFields,
+  dryRun: dryRunSchema,
+  // From the reviewed diff, server signers only sign once it is sent back
+  confirmToken: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/, "Must be the confirmToken of a reviewed diff")
+    .optional(),
+  clientId: clientIdSchema,
+};
+
+export const updateCollectionSchema = z
+  .object({
+    ...collectionManagementFields,
+    name: z.string().min(1).max(32).optional(),
+    uri: uriSchema.optional(),
+    royaltyBasisPoints: basisPointsSchema.optional(),
+    creators: z
+      .array(creatorSchema)
+      .min(1)
+      .max(5)
+      .optional()
+      .superRefine(requireTotalShare((creator) => creator.percentage)),
+  })
+  .superRefine(requireSigner)
+  .refine(
+    (body) =>
+      [body.name, body.uri, body.royaltyBasisPoints, body.creators].some(
+        (value) => value !== undefined
+      ),
+    {
+      path: ["name"],
+      message:
+        "At least one of name, uri, royaltyBasisPoints or creators is required",
+    }
+  );
+
+export const collectionAuthoritySchema = z
+  .object({
+    ...collectionManagementFields,
+    newUpdateAuthority: publicKeySchema, // e.g. a multisig vault
+  })
+  .superRefine(requireSigner);
+
+export type Creator = z.infer<typeof creatorSchema>;
+export type CollectionRequestBody = z.infer<typeof collectionSchema>;
+export type CollectionManagementRequest = z.infer<
+  z.ZodObject<typeof collectionManagementFields>
+>;
+export type UpdateCollectionRequest = z.infer<typeof updateCollectionSchema>;
+export type CollectionAuthorityRequest = z.infer<
+  typeof collectionAuthoritySchema
+>;
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { PublicKey } from "@solana/web3.js";
+import { CLUSTERS, config } from "../config";
+
+const isPublicKey = (value: string) => {
+  try {
+    return new PublicKey(value).toBase58() === value;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const publicKeySchema = z
+  .string()
+  .refine(isPublicKey, { message: "Must be a valid base58 public key" });
+
+// base64 encoded 64 byte secret key, only when the server allows it
+export const privateKeySchema = z
+  .string()
+  .refine(() => config.allowRequestPrivateKeys, {
+    message: "Posted private keys are disabled, use a signerId instead",
+  })
+  .refine((value) => Buffer.from(value, "base64").length === 64, {
+    message: "Must be a base64 encoded 64 byte secret key",
+  });
+
+export const uriSchema = z.string().url().max(200);
+
+export const rpcEndpointSchema = z
+  .string()
+  .url()
+  .refine(() => config.allowCustomRpcEndpoint, {
+    message: "Custom RPC endpoints are disabled, pick a cluster instead",
+  });
+
+export const clusterSchema = z.enum(CLUSTERS);
+
+/**
+ * Which network a request runs against, a named cluster or, when the server
+ * allows it, any RPC URL. Both fall back to the default cluster.
+ */
+export const networkFields = {
+  cluster: clusterSchema.optional(),
+  rpcEndpoint: rpcEndpointSchema.optional(),
+};
+
+export const clientIdSchema = z.string().min(1);
+
+// Build and simulate the transaction instead of returning or sending it
+export const dryRunSchema = z.boolean().optional();
+
+export const basisPointsSchema = z.number().int().min(0).max(10000);
+
+// Amount in whole tokens, e.g. "12.5", converted with the mint's decimals.
+// JSON numbers lose precision past 2^53 and print small fractions as
+// exponents, so only safe integers are accepted as numbers.
+export const uiAmountSchema = z
+  .union([
+    z.string(),
+    z
+      .number()
+      .int('Fractional amounts must be sent as a string, e.g. "0.5"')
+      .safe("Amounts above 2^53 must be sent as a string"),
+  ])
+  .transform(String)
+  .pipe(
+    z.string().regex(/^\d+(\.\d+)?$/, "Must be a positive decimal number")
+  );
+
+export const positiveUiAmountSchema = uiAmountSchema.refine(
+  (amount) => /[1-9]/.test(amount),
+  { message: "Must be greater than 0" }
+);
+
+// Multipart fields arrive as strings, so structured ones are sent as JSON
+export const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return value;
+    }
+  }, schema);
+
+/**
+ * Requests that can either be signed on the server, by a keystore signer or
+ * a posted private key when ALLOW_REQUEST_PRIVATE_KEYS is on, or returned
+ * unsigned for the wallet behind `publicKey`
+ */
+export const signerFields = {
+  signerId: z.string().min(1).optional(),
+  privateKey: privateKeySchema.optional(),
+  publicKey: publicKeySchema.optional(),
+};
+
+export const requireSigner = (
+  body: { signerId?: string; privateKey?: string; publicKey?: string },
+  ctx: z.RefinementCtx
+) => {
+  if (!body.signerId && !body.privateKey && !body.publicKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publicKey"],
+      message: "One of signerId or publicKey is required",
+    });
+  }
+};
+
+/**
+ * Adds an issue when the shares of a creators list do not add up to 100
+ */
+export const requireTotalShare =
+  <T>(share: (item: T) => number) =>
+  (creators: T[] | undefined, ctx: z.RefinementCtx) => {
+    if (!creators || creators.length === 0) return;
+    const total = creators.reduce((sum, creator) => sum + share(creator), 0);
+    if (total !== 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Creator shares must add up to 100, got ${total}`,
+      });
+    }
+  };
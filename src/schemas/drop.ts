@@ -0,0 +1,93 @@
+import { z } from "zod";
+import bs58 from "bs58";
+import {
+  clientIdSchema,
+  networkFields,
+  publicKeySchema,
+  uiAmountSchema,
+  uriSchema,
+} from "./common";
+
+export const MAX_DROP_SUPPLY = 100000;
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+const merkleNodeSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{64}$/, "Must be a 32 byte hex hash");
+
+// Prices are in SOL, e.g. "0.5", and may be "0" for free mints
+export const dropConfigSchema = z
+  .object({
+    collection: publicKeySchema,
+    signerId: z.string().min(1), // Keystore signer, the collection authority
+    treasury: publicKeySchema,
+    price: uiAmountSchema,
+    name: z.string().min(1).max(24), // Leaves room for " #<number>"
+    uri: uriSchema,
+    startsAt: timestampSchema,
+    endsAt: timestampSchema.optional(),
+    maxSupply: z.number().int().min(1).max(MAX_DROP_SUPPLY),
+    perWalletLimit: z.number().int().min(1).optional(),
+    // Only wallets with a proof can mint until allowlist.endsAt
+    allowlist: z
+      .object({
+        merkleRoot: merkleNodeSchema,
+        endsAt: timestampSchema,
+        price: uiAmountSchema.optional(),
+      })
+      .optional(),
+    ...networkFields,
+  })
+  .superRefine((body, ctx) => {
+    const startsAt = Date.parse(body.startsAt);
+    const endsAt = body.endsAt ? Date.parse(body.endsAt) : Infinity;
+    if (endsAt <= startsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["endsAt"],
+        message: "Must be after startsAt",
+      });
+    }
+    if (body.allowlist) {
+      const allowlistEndsAt = Date.parse(body.allowlist.endsAt);
+      if (allowlistEndsAt <= startsAt || allowlistEndsAt > endsAt) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["allowlist", "endsAt"],
+          message: "Must be between startsAt and endsAt",
+        });
+      }
+    }
+  });
+
+export const dropParamsSchema = z.object({
+  collection: publicKeySchema,
+});
+
+export const dropChallengeSchema = z.object({
+  buyer: publicKeySchema,
+});
+
+const isSignature = (value: string) => {
+  try {
+    return bs58.decode(value).length === 64;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const dropMintSchema = z.object({
+  buyer: publicKeySchema, // Pays the price and fees, receives the asset
+  proof: z.array(merkleNodeSchema).max(32).optional(), // Allowlist phase
+  // From POST /drops/:collection/challenge, the buyer signs its message
+  nonce: z.string().regex(/^[0-9a-f]{32}$/, "Must be a challenge nonce"),
+  signature: z
+    .string()
+    .refine(isSignature, { message: "Must be a base58 64 byte signature" }),
+  clientId: clientIdSchema,
+});
+
+export type DropConfigRequest = z.infer<typeof dropConfigSchema>;
+export type DropChallengeRequest = z.infer<typeof dropChallengeSchema>;
+export type DropMintRequest = z.infer<typeof dropMintSchema>;
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import {
+  basisPointsSchema,
+  clientIdSchema,
+  dryRunSchema,
+  networkFields,
+  publicKeySchema,
+  requireSigner,
+  requireTotalShare,
+  signerFields,
+  uriSchema,
+} from "./common";
+import { assetPluginsSchema } from "./plugins";
+
+const nftCreatorSchema = z.object({
+  address: publicKeySchema,
+  share: z.number().int().min(0).max(100),
+});
+
+export const mintNFTSchema = z
+  .object({
+    ...networkFields,
+    ...signerFields,
+    collectionMint: publicKeySchema,
+    metadata: z.object({
+      name: z.string().min(1).max(32),
+      uri: uriSchema,
+      // Minted as the asset's Royalties plugin
+      sellerFeeBasisPoints: basisPointsSchema.optional(),
+      creators: z
+        .array(nftCreatorSchema)
+        .max(5)
+        .optional()
+        .superRefine(requireTotalShare((creator) => creator.share)),
+    }),
+    recipient: publicKeySchema.optional(),
+    plugins: assetPluginsSchema.optional(),
+    dryRun: dryRunSchema,
+    clientId: clientIdSchema,
+  })
+  .superRefine(requireSigner)
+  .superRefine(({ metadata, plugins }, ctx) => {
+    const { sellerFeeBasisPoints, creators } = metadata;
+    if (creators?.length && sellerFeeBasisPoints === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["metadata", "sellerFeeBasisPoints"],
+        message: "Required when creators are listed",
+      });
+    }
+    if (
+      sellerFeeBasisPoints !== undefined &&
+      plugins?.some((plugin) => plugin.type === "Royalties")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["metadata", "sellerFeeBasisPoints"],
+        message: "Set royalties here or as a Royalties plugin, not both",
+      });
+    }
+  });
+
+export const MAX_BATCH_SIZE = 500;
+export const MAX_CONCURRENCY = 10;
+
+export const batchMintSchema = z
+  .object({
+    ...networkFields,
+    ...signerFields,
+    collectionMint: publicKeySchema,
+    items: z
+      .array(
+        z.object({
+          name: z.string().min(1).max(32),
+          uri: uriSchema,
+          recipient: publicKeySchema.optional(),
+          plugins: assetPluginsSchema.optional(),
+        })
+      )
+      .min(1)
+      .max(MAX_BATCH_SIZE),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional(),
+    clientId: clientIdSchema,
+  })
+  .superRefine(requireSigner);
+
+export type MintNFTRequestBody = z.infer<typeof mintNFTSchema>;
+export type BatchMintRequestBody = z.infer<typeof batchMintSchema>;
+export type BatchMintItem = BatchMintRequestBody["items"][number];
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import {
+  basisPointsSchema,
+  publicKeySchema,
+  requireTotalShare,
+} from "./common";
+
+export const MAX_PLUGINS = 10;
+export const MAX_ATTRIBUTES = 50;
+
+// Who may update or revoke a plugin, the program default applies if omitted
+const pluginAuthoritySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("None") }), // Nobody, the plugin is locked
+  z.object({ type: z.literal("Owner") }),
+  z.object({ type: z.literal("UpdateAuthority") }),
+  z.object({ type: z.literal("Address"), address: publicKeySchema }),
+]);
+
+const pluginFields = {
+  authority: pluginAuthoritySchema.optional(),
+};
+
+const attributesPluginSchema = z.object({
+  type: z.literal("Attributes"),
+  attributes: z
+    .array(
+      z.object({
+        key: z.string().min(1).max(64),
+        value: z.string().max(256),
+      })
+    )
+    .max(MAX_ATTRIBUTES),
+  ...pluginFields,
+});
+
+// Limits which programs may move the asset, e.g. to enforce royalties
+const ruleSetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("None") }),
+  z.object({
+    type: z.literal("ProgramAllowList"),
+    addresses: z.array(publicKeySchema).min(1).max(20),
+  }),
+  z.object({
+    type: z.literal("ProgramDenyList"),
+    addresses: z.array(publicKeySchema).min(1).max(20),
+  }),
+]);
+
+const royaltiesPluginSchema = z.object({
+  type: z.literal("Royalties"),
+  basisPoints: basisPointsSchema,
+  creators: z
+    .array(
+      z.object({
+        address: publicKeySchema,
+        percentage: z.number().int().min(0).max(100),
+      })
+    )
+    .min(1)
+    .max(5)
+    .superRefine(requireTotalShare((creator) => creator.percentage)),
+  ruleSet: ruleSetSchema.default({ type: "None" }),
+  ...pluginFields,
+});
+
+// Frozen for good unless its authority thaws it, with a "None" authority
+// this makes soulbound assets
+const permanentFreezePluginSchema = z.object({
+  type: z.literal("PermanentFreezeDelegate"),
+  frozen: z.boolean().default(true),
+  ...pluginFields,
+});
+
+// Owner managed delegates, the authority is usually the delegate's address
+const freezeDelegatePluginSchema = z.object({
+  type: z.literal("FreezeDelegate"),
+  frozen: z.boolean().default(false),
+  ...pluginFields,
+});
+
+const transferDelegatePluginSchema = z.object({
+  type: z.literal("TransferDelegate"),
+  ...pluginFields,
+});
+
+const burnDelegatePluginSchema = z.object({
+  type: z.literal("BurnDelegate"),
+  ...pluginFields,
+});
+
+// Each plugin type can only be attached once
+const requireUniqueTypes = (
+  plugins: { type: string }[] | undefined,
+  ctx: z.RefinementCtx
+) => {
+  const seen = new Set<string>();
+  plugins?.forEach(({ type }, index) => {
+    if (seen.has(type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, "type"],
+        message: `Plugin ${type} is listed more than once`,
+      });
+    }
+    seen.add(type);
+  });
+};
+
+/**
+ * Plugins a collection can be created with. Owner managed delegates only
+ * exist on assets.
+ */
+export const collectionPluginsSchema = z
+  .array(
+    z.discriminatedUnion("type", [
+      attributesPluginSchema,
+      royaltiesPluginSchema,
+      permanentFreezePluginSchema,
+    ])
+  )
+  .max(MAX_PLUGINS)
+  .superRefine(requireUniqueTypes);
+
+export const assetPluginsSchema = z
+  .array(
+    z.discriminatedUnion("type", [
+      attributesPluginSchema,
+      royaltiesPluginSchema,
+      permanentFreezePluginSchema,
+      freezeDelegatePluginSchema,
+      transferDelegatePluginSchema,
+      burnDelegatePluginSchema,
+    ])
+  )
+  .max(MAX_PLUGINS)
+  .superRefine(requireUniqueTypes);
+
+export type PluginAuthoritySpec = z.infer<typeof pluginAuthoritySchema>;
+export type CollectionPluginSpec = z.infer<
+  typeof collectionPluginsSchema
+>[number];
+export type AssetPluginSpec = z.infer<typeof assetPluginsSchema>[number];
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { networkFields, publicKeySchema } from "./common";
+
+export const mintParamsSchema = z.object({
+  mint: publicKeySchema,
+});
+
+export const addressParamsSchema = z.object({
+  address: publicKeySchema,
+});
+
+export const readQuerySchema = z.object({
+  ...networkFields,
+});
+
+export type ReadQuery = z.infer<typeof readQuerySchema>;
+
+export const MAX_PAGE_SIZE = 100; // One getMultipleAccounts call per page
+
+export const collectionAssetsQuerySchema = readQuerySchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+});
+
+export const holderSnapshotQuerySchema = readQuerySchema.extend({
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export type CollectionAssetsQuery = z.infer<
+  typeof collectionAssetsQuerySchema
+>;
+export type HolderSnapshotQuery = z.infer<typeof holderSnapshotQuerySchema>;
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import {
+  clientIdSchema,
+  jsonField,
+  networkFields,
+  publicKeySchema,
+  uriSchema,
+} from "./common";
+
+export const MAX_REVEAL_SIZE = 10000;
+export const MAX_REVEAL_CONCURRENCY = 10;
+
+export const revealMetadataSchema = z.object({
+  uri: uriSchema,
+  name: z.string().min(1).max(32).optional(),
+});
+
+export const revealManifestEntrySchema = revealMetadataSchema.extend({
+  asset: publicKeySchema,
+});
+
+// The manifest can also come as a `csv` file of `asset,uri,name` rows
+export const createRevealSchema = z
+  .object({
+    collection: publicKeySchema,
+    method: z.enum(["manifest", "shuffle"]),
+    manifest: jsonField(
+      z.array(revealManifestEntrySchema).max(MAX_REVEAL_SIZE).optional()
+    ),
+    // Shuffled onto the assets minted later, one entry per asset
+    metadata: jsonField(
+      z.array(revealMetadataSchema).min(1).max(MAX_REVEAL_SIZE).optional()
+    ),
+    ...networkFields,
+    clientId: clientIdSchema,
+  })
+  .superRefine((body, ctx) => {
+    if (body.method === "shuffle" && !body.metadata) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["metadata"],
+        message: "metadata is required for a shuffle reveal",
+      });
+    }
+    if (body.method === "manifest" && body.metadata) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["method"],
+        message: "metadata only applies to a shuffle reveal",
+      });
+    }
+  });
+
+export const revealParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// Updating every asset takes many transactions, so only server-held
+// signers can run a reveal
+export const runRevealSchema = z.object({
+  signerId: z.string().min(1),
+  concurrency: z.number().int().min(1).max(MAX_REVEAL_CONCURRENCY).optional(),
+  clientId: clientIdSchema,
+});
+
+export type RevealMetadata = z.infer<typeof revealMetadataSchema>;
+export type RevealManifestEntry = z.infer<typeof revealManifestEntrySchema>;
+export type CreateRevealRequest = z.infer<typeof createRevealSchema>;
+export type RunRevealRequest = z.infer<typeof runRevealSchema>;
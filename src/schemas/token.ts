@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+  basisPointsSchema,
+  clientIdSchema,
+  dryRunSchema,
+  networkFields,
+  positiveUiAmountSchema,
+  publicKeySchema,
+  uiAmountSchema,
+  uriSchema,
+} from "./common";
+
+// Token-2022 mint extensions, every authority they need is the user's wallet
+export const token2022ExtensionsSchema = z
+  .object({
+    transferFee: z
+      .object({
+        feeBasisPoints: basisPointsSchema,
+        maxFee: uiAmountSchema, // In whole tokens
+      })
+      .optional(),
+    interestBearing: z
+      .object({
+        rate: z.number().int().min(-32768).max(32767), // Basis points a year
+      })
+      .optional(),
+    nonTransferable: z.boolean().optional(),
+    permanentDelegate: publicKeySchema.optional(),
+    // Points the mint at its Metaplex metadata account
+    metadataPointer: z.boolean().optional(),
+  })
+  .strict();
+
+export const createTokenSchema = z
+  .object({
+    name: z.string().min(1).max(32),
+    uri: uriSchema,
+    symbol: z.string().min(1).max(10),
+    decimals: z.number().int().min(0).max(9).optional(),
+    // Decimal string in whole tokens, e.g. "1000000.5"
+    initialSupply: uiAmountSchema.optional(),
+    tokenProgram: z.enum(["spl", "token2022"]).default("spl"),
+    extensions: token2022ExtensionsSchema.optional(),
+    publicKey: publicKeySchema, // User's wallet public key
+    ...networkFields,
+    dryRun: dryRunSchema,
+    clientId: clientIdSchema,
+  })
+  .superRefine((body, ctx) => {
+    if (body.extensions && body.tokenProgram !== "token2022") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["extensions"],
+        message: 'Extensions require tokenProgram "token2022"',
+      });
+    }
+    if (body.extensions?.nonTransferable && body.extensions.transferFee) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["extensions", "transferFee"],
+        message: "Non-transferable tokens cannot charge transfer fees",
+      });
+    }
+  });
+
+export type Token2022Extensions = z.infer<typeof token2022ExtensionsSchema>;
+
+export type CreateTokenRequest = z.infer<typeof createTokenSchema>;
+
+// Shared by every endpoint that manages an existing mint for a wallet
+const tokenManagementFields = {
+  mint: publicKeySchema,
+  publicKey: publicKeySchema, // Wallet holding the relevant authority
+  ...networkFields,
+  clientId: clientIdSchema,
+};
+
+export const mintTokensSchema = z.object({
+  ...tokenManagementFields,
+  amount: positiveUiAmountSchema,
+  recipient: publicKeySchema.optional(),
+});
+
+export const burnTokensSchema = z.object({
+  ...tokenManagementFields,
+  amount: positiveUiAmountSchema,
+});
+
+export const tokenAccountSchema = z.object({
+  ...tokenManagementFields,
+  owner: publicKeySchema, // Owner of the token account to freeze or thaw
+});
+
+export const setTokenAuthoritySchema = z.object({
+  ...tokenManagementFields,
+  authorityType: z.enum(["mint", "freeze"]),
+  // null revokes the authority for good, which fixes the supply for "mint"
+  newAuthority: publicKeySchema.nullable(),
+});
+
+export type TokenManagementRequest = z.infer<
+  z.ZodObject<typeof tokenManagementFields>
+>;
+export type MintTokensRequest = z.infer<typeof mintTokensSchema>;
+export type BurnTokensRequest = z.infer<typeof burnTokensSchema>;
+export type TokenAccountRequest = z.infer<typeof tokenAccountSchema>;
+export type SetTokenAuthorityRequest = z.infer<typeof setTokenAuthoritySchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { clientIdSchema, networkFields } from "./common";
+
+export const submitTransactionSchema = z.object({
+  transaction: z.string().base64(), // fully signed, serialized transaction
+  ...networkFields,
+  clientId: clientIdSchema,
+});
+
+export type SubmitTransactionRequest = z.infer<typeof submitTransactionSchema>;
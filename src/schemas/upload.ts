@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { clientIdSchema, jsonField } from "./common";
+
+export const uploadMetadataSchema = z.object({
+  name: z.string().min(1).max(32),
+  symbol: z.string().max(10).optional(),
+  description: z.string().max(1000),
+  external_url: z.string().url().optional(),
+  attributes: jsonField(
+    z
+      .array(
+        z.object({
+          trait_type: z.string().min(1),
+          value: z.union([z.string(), z.number()]),
+        })
+      )
+      .optional()
+  ),
+  clientId: clientIdSchema,
+});
+
+export type UploadMetadataRequest = z.infer<typeof uploadMetadataSchema>;
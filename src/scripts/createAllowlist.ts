@@ -0,0 +1,28 @@
+import { readFileSync, writeFileSync } from "fs";
+import { buildMerkleTree } from "../utils/merkle";
+
+/**
+ * Builds the merkle tree of a drop allowlist from a file with one wallet
+ * per line. The root goes into the drop's `allowlist.merkleRoot`, each buyer
+ * sends their proof from the output file when minting.
+ *
+ *   npm run allowlist:create -- wallets.txt allowlist.json
+ */
+const [walletsPath, outputPath] = process.argv.slice(2);
+
+if (!walletsPath || !outputPath) {
+  console.error("Usage: allowlist:create <wallets.txt> <out.json>");
+  process.exit(1);
+}
+
+const wallets = readFileSync(walletsPath, "utf8")
+  .split(/\r?\n/)
+  .map((line) => line.split(",")[0].trim())
+  .filter(Boolean);
+const tree = buildMerkleTree(wallets);
+writeFileSync(outputPath, `${JSON.stringify(tree, null, 2)}\n`);
+console.log(
+  `Wrote ${Object.keys(tree.proofs).length} proofs with root ${
+    tree.root
+  } to ${outputPath}`
+);
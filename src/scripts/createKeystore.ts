@@ -0,0 +1,28 @@
+import { readFileSync, writeFileSync } from "fs";
+import { encryptKeystore } from "../utils/keystore";
+
+/**
+ * Encrypts a Solana CLI keypair file into a keystore file the server can
+ * load with SIGNER_<ID>_KEYSTORE_FILE. The passphrase is read from
+ * KEYSTORE_PASSPHRASE so it does not end up in the shell history.
+ *
+ *   KEYSTORE_PASSPHRASE=... npm run keystore:create -- id.json out.json
+ */
+const [keypairPath, outputPath] = process.argv.slice(2);
+const passphrase = process.env.KEYSTORE_PASSPHRASE;
+
+if (!keypairPath || !outputPath || !passphrase) {
+  console.error(
+    "Usage: KEYSTORE_PASSPHRASE=... keystore:create <keypair.json> <out.json>"
+  );
+  process.exit(1);
+}
+
+const secretKey = Uint8Array.from(
+  JSON.parse(readFileSync(keypairPath, "utf8"))
+);
+const keystore = encryptKeystore(secretKey, passphrase);
+writeFileSync(outputPath, `${JSON.stringify(keystore, null, 2)}\n`, {
+  mode: 0o600,
+});
+console.log(`Wrote keystore for ${keystore.publicKey} to ${outputPath}`);
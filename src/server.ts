@@ -1,21 +1,51 @@
+import "dotenv/config";
 import express, { Application } from "express";
 import indexRoutes from "./routes/index";
-import "dotenv/config";
 import cors, { CorsOptions } from "cors";
 import { errorHandler } from "./middlewares/errorHandler";
+import { requestId } from "./middlewares/requestId";
+import { keystore } from "./utils/keystore";
+import { config } from "./config";
+import { startRpcHealthChecks } from "./utils/rpcPool";
+
+// Fail fast on a broken signer config rather than on the first request
+const signers = keystore.load();
+signers.forEach(({ id, source, publicKey }) => {
+  console.log(`Loaded signer "${id}" (${source}): ${publicKey}`);
+});
+const { signerId: uploaderSignerId } = config.uploader;
+if (uploaderSignerId && !signers.some(({ id }) => id === uploaderSignerId)) {
+  throw new Error(
+    `UPLOADER_SIGNER_ID names unknown signer "${uploaderSignerId}"`
+  );
+}
 
 const app: Application = express();
-const port: number = 3000;
+const port: number = config.port;
 
 // Middleware to parse JSON bodies
 app.use(express.json());
+app.use(requestId);
 const corsOptions: CorsOptions = {
-  origin: "http://localhost:3001",
-  methods: ["GET", "POST"],
+  origin: config.corsOrigins,
+  methods: ["GET", "POST", "DELETE"],
   allowedHeaders: ["Content-Type", "Authorization"],
+  exposedHeaders: [
+    "X-Request-Id",
+    "Retry-After",
+    "X-RateLimit-Limit",
+    "X-RateLimit-Remaining",
+    "X-RateLimit-Reset",
+    "X-Mint-Quota-Remaining",
+  ],
 };
 app.use(cors(corsOptions));
 
+// Serve files written by the local filesystem uploader
+if (config.uploader.kind === "fs") {
+  app.use("/uploads", express.static(config.uploader.directory));
+}
+
 // Use routes
 app.use("/api/", indexRoutes);
 app.use(errorHandler);
@@ -23,4 +53,10 @@ app.use(errorHandler);
 // Start the server
 app.listen(port, () => {
   console.log(`Server is running on http://localhost:${port}`);
+  console.log(
+    `Default cluster: ${config.defaultCluster} (${
+      config.clusters[config.defaultCluster].length
+    } RPC endpoints)`
+  );
+  startRpcHealthChecks();
 });
@@ -0,0 +1,41 @@
+import { ValidationError } from "./errors";
+
+const DECIMAL_AMOUNT = /^(\d+)(?:\.(\d+))?$/;
+
+// Largest amount an SPL token account or mint supply can hold
+export const MAX_U64 = 2n ** 64n - 1n;
+
+/**
+ * Converts a UI amount such as "12.5" into base units of a mint with the
+ * given decimals. Uses string math so no precision is lost on the way, and
+ * rejects amounts with too many decimal places or that overflow u64.
+ */
+export function toBaseUnits(
+  amount: string,
+  decimals: number,
+  path = "amount"
+): bigint {
+  const match = DECIMAL_AMOUNT.exec(amount);
+  if (!match) {
+    throw new ValidationError("Invalid amount", [
+      { path, message: "Must be a positive decimal number" },
+    ]);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new ValidationError("Invalid amount", [
+      { path, message: `Must not have more than ${decimals} decimal places` },
+    ]);
+  }
+
+  const baseUnits = BigInt(
+    whole + fraction.padEnd(decimals, "0").slice(0, decimals)
+  );
+  if (baseUnits > MAX_U64) {
+    throw new ValidationError("Invalid amount", [
+      { path, message: `Must not exceed ${MAX_U64} base units` },
+    ]);
+  }
+  return baseUnits;
+}
@@ -0,0 +1,187 @@
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { config } from "../config";
+import { asThrownError } from "./errors";
+
+export const SCOPES = [
+  "token:create",
+  "token:manage",
+  "collection:create",
+  "collection:manage",
+  "nft:mint",
+  "drop:mint",
+  "asset:manage",
+  "metadata:upload",
+  "transaction:submit",
+  "read",
+  "admin",
+] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+export interface ApiKeyUsage {
+  day: string; // UTC date the counters belong to, e.g. "2026-10-18"
+  mints: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  hash: string; // sha256 of the key, the key itself is never stored
+  prefix: string; // First characters of the key, to tell keys apart
+  scopes: Scope[];
+  signerIds?: string[]; // Keystore signers the key may sign with, none if unset
+  rateLimitPerMinute?: number;
+  dailyMintQuota?: number;
+  usage: ApiKeyUsage;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+/**
+ * Storage backend for API keys. Like the job store it only persists whole
+ * records, the functions below own all mutations.
+ */
+export interface ApiKeyStore {
+  load(): ApiKey[];
+  save(keys: ApiKey[]): Promise<void>;
+}
+
+/**
+ * Keeps every key in a single JSON file
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  constructor(private readonly file: string) {}
+
+  load(): ApiKey[] {
+    try {
+      return JSON.parse(readFileSync(this.file, "utf8"));
+    } catch (error) {
+      if (asThrownError(error)?.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async save(keys: ApiKey[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so readers never see a half-written file
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(keys, null, 2), {
+      mode: 0o600,
+    });
+    await fs.rename(`${this.file}.tmp`, this.file);
+  }
+}
+
+/**
+ * Keeps keys in process memory only, handy for tests
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private keys: ApiKey[] = [];
+
+  load(): ApiKey[] {
+    return structuredClone(this.keys);
+  }
+
+  async save(keys: ApiKey[]): Promise<void> {
+    this.keys = structuredClone(keys);
+  }
+}
+
+let store: ApiKeyStore = new FileApiKeyStore(config.storage.apiKeysFile);
+let keys: ApiKey[] | undefined;
+let writes: Promise<void> = Promise.resolve();
+
+export const setApiKeyStore = (apiKeyStore: ApiKeyStore) => {
+  store = apiKeyStore;
+  keys = undefined;
+};
+
+const allKeys = () => (keys ??= store.load());
+
+const persist = () => {
+  const snapshot = structuredClone(allKeys());
+  writes = writes
+    .then(() => store.save(snapshot))
+    .catch((error) => {
+      console.error("Failed to persist API keys:", error);
+    });
+};
+
+export const hashApiKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Creates a key and returns it in plain text, the only time it is visible
+ */
+export function issueApiKey(
+  options: Pick<
+    ApiKey,
+    "name" | "scopes" | "signerIds" | "rateLimitPerMinute" | "dailyMintQuota"
+  >
+): { key: string; apiKey: ApiKey } {
+  const key = `mpk_${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: randomUUID(),
+    ...options,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, 8),
+    usage: { day: today(), mints: 0 },
+    createdAt: new Date().toISOString(),
+  };
+  allKeys().push(apiKey);
+  persist();
+  return { key, apiKey };
+}
+
+export function revokeApiKey(id: string): ApiKey | null {
+  const apiKey = allKeys().find((candidate) => candidate.id === id);
+  if (!apiKey) return null;
+  apiKey.revokedAt ??= new Date().toISOString();
+  persist();
+  return apiKey;
+}
+
+export const listApiKeys = (): ApiKey[] => structuredClone(allKeys());
+
+export function findActiveApiKey(key: string): ApiKey | null {
+  const hash = hashApiKey(key);
+  return (
+    allKeys().find(
+      (candidate) => candidate.hash === hash && !candidate.revokedAt
+    ) ?? null
+  );
+}
+
+/**
+ * Adds `count` mints to today's usage unless that would pass the key's
+ * daily quota. Returns the mints left for today, or null when refused.
+ */
+export function consumeMintQuota(id: string, count: number): number | null {
+  const apiKey = allKeys().find((candidate) => candidate.id === id);
+  if (!apiKey) return null;
+
+  if (apiKey.usage.day !== today()) {
+    apiKey.usage = { day: today(), mints: 0 };
+  }
+  const quota = apiKey.dailyMintQuota ?? Infinity;
+  if (apiKey.usage.mints + count > quota) return null;
+
+  apiKey.usage.mints += count;
+  persist();
+  return quota - apiKey.usage.mints;
+}
+
+/**
+ * Gives back mints consumed today that did not happen after all
+ */
+export function refundMintQuota(id: string, count: number) {
+  const apiKey = allKeys().find((candidate) => candidate.id === id);
+  // Yesterday's mints are gone with the counters anyway
+  if (!apiKey || apiKey.usage.day !== today()) return;
+
+  apiKey.usage.mints = Math.max(apiKey.usage.mints - count, 0);
+  persist();
+}
@@ -0,0 +1,15 @@
+import { PublicKey, Umi } from "@metaplex-foundation/umi";
+import {
+  getAssetV1GpaBuilder,
+  Key,
+  updateAuthority,
+} from "@metaplex-foundation/mpl-core";
+
+// Every asset account whose update authority is the collection
+export const collectionAssetsQuery = (umi: Umi, collection: PublicKey) =>
+  getAssetV1GpaBuilder(umi)
+    .whereField("key", Key.AssetV1)
+    .whereField(
+      "updateAuthority",
+      updateAuthority("Collection", [collection])
+    );
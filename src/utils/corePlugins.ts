@@ -0,0 +1,87 @@
+import { publicKey } from "@metaplex-foundation/umi";
+import {
+  AssetPluginAuthorityPairArgsV2,
+  CollectionPluginAuthorityPairArgsV2,
+  PluginAuthority,
+  RuleSet,
+} from "@metaplex-foundation/mpl-core";
+import {
+  AssetPluginSpec,
+  CollectionPluginSpec,
+  PluginAuthoritySpec,
+} from "../schemas/plugins";
+
+const toPluginAuthority = (
+  authority: PluginAuthoritySpec | undefined
+): PluginAuthority | undefined => {
+  if (!authority) return undefined;
+  return authority.type === "Address"
+    ? { type: "Address", address: publicKey(authority.address) }
+    : { type: authority.type };
+};
+
+const toCollectionPlugin = (
+  spec: CollectionPluginSpec
+): CollectionPluginAuthorityPairArgsV2 => {
+  const authority = toPluginAuthority(spec.authority);
+
+  switch (spec.type) {
+    case "Attributes":
+      return {
+        type: "Attributes",
+        attributeList: spec.attributes,
+        authority,
+      };
+    case "Royalties": {
+      const ruleSet: RuleSet =
+        spec.ruleSet.type === "None"
+          ? { type: "None" }
+          : {
+              type: spec.ruleSet.type,
+              addresses: spec.ruleSet.addresses.map((address) =>
+                publicKey(address)
+              ),
+            };
+      return {
+        type: "Royalties",
+        basisPoints: spec.basisPoints,
+        creators: spec.creators.map((creator) => ({
+          address: publicKey(creator.address),
+          percentage: creator.percentage,
+        })),
+        ruleSet,
+        authority,
+      };
+    }
+    case "PermanentFreezeDelegate":
+      return {
+        type: "PermanentFreezeDelegate",
+        frozen: spec.frozen,
+        authority,
+      };
+  }
+};
+
+/**
+ * Maps validated plugin specs from a request onto mpl-core create arguments
+ */
+export const toCollectionPlugins = (
+  specs: CollectionPluginSpec[]
+): CollectionPluginAuthorityPairArgsV2[] => specs.map(toCollectionPlugin);
+
+export const toAssetPlugins = (
+  specs: AssetPluginSpec[]
+): AssetPluginAuthorityPairArgsV2[] =>
+  specs.map((spec) => {
+    const authority = toPluginAuthority(spec.authority);
+
+    switch (spec.type) {
+      case "FreezeDelegate":
+        return { type: "FreezeDelegate", frozen: spec.frozen, authority };
+      case "TransferDelegate":
+      case "BurnDelegate":
+        return { type: spec.type, authority };
+      default:
+        return toCollectionPlugin(spec);
+    }
+  });
@@ -0,0 +1,62 @@
+import { ValidationError } from "./errors";
+
+export interface CsvRow {
+  line: number; // Line the row starts on, for error paths
+  cells: string[];
+}
+
+/**
+ * Splits CSV text into rows of trimmed cells. Quoted cells may hold commas,
+ * line breaks and doubled quotes. Blank rows are left out.
+ */
+export function parseCsv(csv: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endCell = () => {
+    cells.push(cell.trim());
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (cells.join("") !== "") rows.push({ line: rowLine, cells });
+    cells = [];
+    rowLine = line;
+  };
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (char === "\n") line++;
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (char === ",") {
+      endCell();
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError("Invalid CSV", [
+      { path: `csv.${rowLine}`, message: "Quoted field is never closed" },
+    ]);
+  }
+  endRow();
+  return rows;
+}
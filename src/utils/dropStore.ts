@@ -0,0 +1,237 @@
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import { config, NetworkFields } from "../config";
+import { asThrownError } from "./errors";
+
+export interface DropAllowlist {
+  merkleRoot: string; // Hex root built with utils/merkle.ts
+  endsAt: string; // The public phase starts here
+  priceLamports?: string; // Allowlist price, the public one if omitted
+}
+
+export interface DropConfig {
+  collection: string;
+  network: NetworkFields;
+  signerId: string; // Keystore signer holding the collection authority
+  treasury: string; // Receives the price of every mint
+  priceLamports: string; // u64 as a string, 0 for free mints
+  name: string; // Assets are named "<name> #<number>"
+  uri: string; // Metadata every asset is minted with
+  startsAt: string;
+  endsAt?: string;
+  maxSupply: number;
+  perWalletLimit?: number;
+  allowlist?: DropAllowlist;
+}
+
+// A prepared mint the buyer may still send, it counts until it expires
+export interface DropReservation {
+  asset: string;
+  wallet: string;
+  caller: string; // API key that prepared it, open ones are capped per key
+  number: number;
+  expiresAt: string;
+}
+
+export interface Drop extends DropConfig {
+  minted: number; // Mints seen on chain
+  wallets: Record<string, number>; // Mints seen on chain per wallet
+  reservations: DropReservation[];
+  lastNumber: number; // Numbers are never reused, expired ones leave gaps
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for drops. Like the API key store it only persists whole
+ * lists, the functions below own all mutations.
+ */
+export interface DropStore {
+  load(): Drop[];
+  save(drops: Drop[]): Promise<void>;
+}
+
+/**
+ * Keeps every drop with its counters in a single JSON file
+ */
+export class FileDropStore implements DropStore {
+  constructor(private readonly file: string) {}
+
+  load(): Drop[] {
+    try {
+      return JSON.parse(readFileSync(this.file, "utf8"));
+    } catch (error) {
+      if (asThrownError(error)?.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async save(drops: Drop[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so readers never see a half-written file
+    await fs.writeFile(`${this.file}.tmp`, JSON.stringify(drops, null, 2));
+    await fs.rename(`${this.file}.tmp`, this.file);
+  }
+}
+
+/**
+ * Keeps drops in process memory only, handy for tests
+ */
+export class InMemoryDropStore implements DropStore {
+  private drops: Drop[] = [];
+
+  load(): Drop[] {
+    return structuredClone(this.drops);
+  }
+
+  async save(drops: Drop[]): Promise<void> {
+    this.drops = structuredClone(drops);
+  }
+}
+
+let store: DropStore = new FileDropStore(config.storage.dropsFile);
+let drops: Drop[] | undefined;
+let writes: Promise<void> = Promise.resolve();
+
+export const setDropStore = (dropStore: DropStore) => {
+  store = dropStore;
+  drops = undefined;
+};
+
+const allDrops = () => (drops ??= store.load());
+
+const persist = () => {
+  const snapshot = structuredClone(allDrops());
+  writes = writes
+    .then(() => store.save(snapshot))
+    .catch((error) => {
+      console.error("Failed to persist drops:", error);
+    });
+};
+
+const find = (collection: string) =>
+  allDrops().find((drop) => drop.collection === collection);
+
+/**
+ * Creates the drop of a collection, or replaces its configuration while
+ * keeping the counters of the mints made so far
+ */
+export function saveDropConfig(config: DropConfig): Drop {
+  const now = new Date().toISOString();
+  const existing = find(config.collection);
+  if (existing) {
+    Object.assign(existing, config, { updatedAt: now });
+    // Optional fields left out of the new configuration are cleared
+    (["endsAt", "perWalletLimit", "allowlist"] as const).forEach((field) => {
+      if (config[field] === undefined) delete existing[field];
+    });
+    persist();
+    return structuredClone(existing);
+  }
+
+  const drop: Drop = {
+    ...config,
+    minted: 0,
+    wallets: {},
+    reservations: [],
+    lastNumber: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  allDrops().push(drop);
+  persist();
+  return structuredClone(drop);
+}
+
+export const findDrop = (collection: string): Drop | null => {
+  const drop = find(collection);
+  return drop ? structuredClone(drop) : null;
+};
+
+// Confirmed and reserved mints, what the limits are checked against
+export const dropSupply = (drop: Drop) =>
+  drop.minted + drop.reservations.length;
+
+export const walletMints = (drop: Drop, wallet: string) =>
+  (drop.wallets[wallet] ?? 0) +
+  drop.reservations.filter((reservation) => reservation.wallet === wallet)
+    .length;
+
+/**
+ * Reservations an API key holds across every drop that have not expired
+ */
+export const openReservations = (caller: string, now = Date.now()) =>
+  allDrops().reduce(
+    (sum, drop) =>
+      sum +
+      drop.reservations.filter(
+        (reservation) =>
+          reservation.caller === caller &&
+          Date.parse(reservation.expiresAt) > now
+      ).length,
+    0
+  );
+
+/**
+ * Reserves the next mint of a drop for a wallet. Returns null, and changes
+ * nothing, when that would pass the max supply or the wallet's limit.
+ */
+export function reserveDropMint(
+  collection: string,
+  wallet: string,
+  caller: string,
+  asset: string,
+  expiresAt: Date
+): DropReservation | null {
+  const drop = find(collection);
+  if (!drop) return null;
+  if (dropSupply(drop) >= drop.maxSupply) return null;
+  if (walletMints(drop, wallet) >= (drop.perWalletLimit ?? Infinity)) {
+    return null;
+  }
+
+  const reservation: DropReservation = {
+    asset,
+    wallet,
+    caller,
+    number: (drop.lastNumber += 1),
+    expiresAt: expiresAt.toISOString(),
+  };
+  drop.reservations.push(reservation);
+  persist();
+  return { ...reservation };
+}
+
+export function releaseDropMint(collection: string, asset: string) {
+  const drop = find(collection);
+  if (!drop) return;
+  drop.reservations = drop.reservations.filter(
+    (reservation) => reservation.asset !== asset
+  );
+  persist();
+}
+
+/**
+ * Settles expired reservations: the ones whose asset made it on chain become
+ * mints, the others free their spot again
+ */
+export function settleDropReservations(
+  collection: string,
+  expired: string[],
+  landed: Set<string>
+) {
+  const drop = find(collection);
+  if (!drop || expired.length === 0) return;
+
+  const settled = new Set(expired);
+  drop.reservations = drop.reservations.filter((reservation) => {
+    if (!settled.has(reservation.asset)) return true;
+    if (landed.has(reservation.asset)) {
+      drop.minted += 1;
+      drop.wallets[reservation.wallet] =
+        (drop.wallets[reservation.wallet] ?? 0) + 1;
+    }
+    return false;
+  });
+  persist();
+}
@@ -0,0 +1,235 @@
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "GONE"
+  | "RPC_UNAVAILABLE"
+  | "INSUFFICIENT_FUNDS"
+  | "ACCOUNT_NOT_FOUND"
+  | "SIMULATION_FAILED"
+  | "BLOCKHASH_EXPIRED"
+  | "TRANSACTION_FAILED"
+  | "INTERNAL_ERROR";
+
+/**
+ * Base class for every error the API reports. The code and status end up in
+ * the response envelope and in SSE error events.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, public readonly details: FieldError[] = []) {
+    super("VALIDATION_ERROR", 400, message, details);
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "A valid API key is required") {
+    super("UNAUTHORIZED", 401, message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super("FORBIDDEN", 403, message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(public readonly retryAfterSeconds: number) {
+    super("RATE_LIMITED", 429, "Too many requests, slow down", {
+      retryAfterSeconds,
+    });
+    this.name = "RateLimitedError";
+  }
+}
+
+export class QuotaExceededError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super("QUOTA_EXCEEDED", 429, message, details);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super("NOT_FOUND", 404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super("CONFLICT", 409, message);
+    this.name = "ConflictError";
+  }
+}
+
+// For state that will not come back, so retrying the request cannot help
+export class GoneError extends ApiError {
+  constructor(message: string) {
+    super("GONE", 410, message);
+    this.name = "GoneError";
+  }
+}
+
+export class RpcUnavailableError extends ApiError {
+  constructor(message = "RPC endpoint is unavailable", details?: unknown) {
+    super("RPC_UNAVAILABLE", 503, message, details);
+    this.name = "RpcUnavailableError";
+  }
+}
+
+export class InsufficientFundsError extends ApiError {
+  constructor(
+    message = "Insufficient funds for fees or rent",
+    logs?: string[]
+  ) {
+    super("INSUFFICIENT_FUNDS", 402, message, logs && { logs });
+    this.name = "InsufficientFundsError";
+  }
+}
+
+export class AccountNotFoundError extends ApiError {
+  constructor(message = "Account not found", details?: unknown) {
+    super("ACCOUNT_NOT_FOUND", 404, message, details);
+    this.name = "AccountNotFoundError";
+  }
+}
+
+export class SimulationFailedError extends ApiError {
+  constructor(message = "Transaction simulation failed", logs?: string[]) {
+    super("SIMULATION_FAILED", 422, message, logs && { logs });
+    this.name = "SimulationFailedError";
+  }
+}
+
+export class BlockhashExpiredError extends ApiError {
+  constructor(message = "Blockhash expired, rebuild and sign again") {
+    super("BLOCKHASH_EXPIRED", 409, message);
+    this.name = "BlockhashExpiredError";
+  }
+}
+
+export class TransactionFailedError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super("TRANSACTION_FAILED", 422, message, details);
+    this.name = "TransactionFailedError";
+  }
+}
+
+// Fields of errors thrown by Node, body-parser, Solana web3.js and Umi that
+// error handling reads
+export interface ThrownError {
+  name?: string;
+  message?: string;
+  code?: string; // Node system errors, e.g. "ENOENT"
+  type?: string; // body-parser, e.g. "entity.parse.failed"
+  status?: number; // HTTP status of errors from HTTP clients
+  statusCode?: number;
+  source?: string;
+  logs?: unknown;
+  transactionLogs?: unknown;
+  cause?: unknown;
+}
+
+export const asThrownError = (error: unknown): ThrownError | undefined =>
+  typeof error === "object" && error !== null
+    ? (error as ThrownError)
+    : undefined;
+
+// Collects program logs from Solana web3.js and Umi errors and their causes
+const extractLogs = (error?: ThrownError): string[] | undefined => {
+  for (let current = error; current; current = asThrownError(current.cause)) {
+    if (Array.isArray(current.logs) && current.logs.length > 0) {
+      return current.logs;
+    }
+    if (Array.isArray(current.transactionLogs)) {
+      return current.transactionLogs;
+    }
+  }
+  return undefined;
+};
+
+const matches = (text: string, patterns: RegExp[]) =>
+  patterns.some((pattern) => pattern.test(text));
+
+const INSUFFICIENT_FUNDS = [
+  /insufficient (funds|lamports)/i,
+  /Attempt to debit an account but found no record of a prior credit/i,
+];
+const BLOCKHASH_EXPIRED = [
+  /blockhash not found/i,
+  /block height exceeded/i,
+  /TransactionExpired/i,
+];
+const RPC_UNAVAILABLE = [
+  /fetch failed/i,
+  /ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT/,
+  // web3.js reports HTTP errors as "<status> <reason>: <body>"
+  /\b(502 Bad Gateway|503 Service Unavailable|504 Gateway Timeout)\b/i,
+  /too many requests/i,
+  /failed to get recent blockhash/i,
+];
+const RPC_UNAVAILABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Maps anything thrown by Solana, Umi or our own code onto an ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const err = asThrownError(error);
+  const message = err?.message ?? String(error);
+  const logs = extractLogs(err);
+  const text = [message, ...(logs ?? [])].join("\n");
+
+  // Umi also throws UnexpectedAccountError for accounts of another type
+  if (
+    err?.name === "AccountNotFoundError" ||
+    err?.name === "UnexpectedAccountError"
+  ) {
+    return new AccountNotFoundError(message);
+  }
+  if (matches(text, INSUFFICIENT_FUNDS)) {
+    return new InsufficientFundsError(undefined, logs);
+  }
+  if (matches(text, BLOCKHASH_EXPIRED)) {
+    return new BlockhashExpiredError();
+  }
+  if (/simulation failed/i.test(message) || err?.name === "ProgramError") {
+    return new SimulationFailedError(message, logs);
+  }
+  const status = err?.status ?? err?.statusCode;
+  if (
+    err?.source === "network" ||
+    (status !== undefined && RPC_UNAVAILABLE_STATUSES.includes(status)) ||
+    matches(message, RPC_UNAVAILABLE)
+  ) {
+    return new RpcUnavailableError(message);
+  }
+
+  return new ApiError("INTERNAL_ERROR", 500, message, logs && { logs });
+}
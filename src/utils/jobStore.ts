@@ -0,0 +1,224 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { config } from "../config";
+import { asThrownError } from "./errors";
+import type { ProgressUpdate } from "./progress";
+
+export type JobType = ProgressUpdate["type"];
+export type JobStatus = "running" | "completed" | "failed";
+
+export interface JobProgressEntry extends ProgressUpdate {
+  timestamp: string;
+}
+
+export interface JobResult {
+  address?: string; // mint, collection or asset address
+  signature?: string;
+  uri?: string; // uploaded metadata
+  items?: Array<{ address?: string; signature?: string; error?: string }>;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  clientId: string;
+  owner?: string; // API key that started it, unset when auth is off
+  status: JobStatus;
+  input: Record<string, unknown>;
+  updates: JobProgressEntry[];
+  result?: JobResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storage backend for job records. Implementations only need to persist and
+ * look up whole records, the registry below owns all mutations.
+ */
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  listByClient(clientId: string): Promise<Job[]>;
+}
+
+/**
+ * Stores every job as its own JSON file in a directory
+ */
+export class FileJobStore implements JobStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+
+  async save(job: Job): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.filePath(job.id);
+    // Write then rename so readers never see a half-written record
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8"));
+    } catch (error) {
+      if (asThrownError(error)?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async listByClient(clientId: string): Promise<Job[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (asThrownError(error)?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const jobs: Job[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+      const job: Job = JSON.parse(
+        await fs.readFile(path.join(this.directory, file), "utf8")
+      );
+      if (job.clientId === clientId) jobs.push(job);
+    }
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+/**
+ * Keeps jobs in process memory only, handy for tests
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async listByClient(clientId: string): Promise<Job[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.clientId === clientId)
+      .map((job) => structuredClone(job));
+  }
+}
+
+let store: JobStore = new FileJobStore(config.storage.jobsDirectory);
+
+export const setJobStore = (jobStore: JobStore) => {
+  store = jobStore;
+};
+
+// Jobs that are still running, so progress can be appended without a read
+const activeJobs = new Map<string, Job>();
+// Pending writes per job, chained so they land in order
+const writes = new Map<string, Promise<void>>();
+
+const SECRET_FIELDS = ["privateKey", "secretKey", "passphrase", "password"];
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SECRET_FIELDS.includes(key) ? "REDACTED" : redact(field),
+      ])
+    );
+  }
+  return value;
+};
+
+const persist = (job: Job) => {
+  job.updatedAt = new Date().toISOString();
+  const snapshot = structuredClone(job);
+  const previous = writes.get(job.id) ?? Promise.resolve();
+  const next = previous
+    .then(() => store.save(snapshot))
+    .catch((error) => {
+      console.error(`Failed to persist job ${job.id}:`, error);
+    });
+  writes.set(job.id, next);
+  next.then(() => {
+    if (writes.get(job.id) === next) writes.delete(job.id);
+  });
+};
+
+export function createJob(
+  type: JobType,
+  clientId: string,
+  input: unknown,
+  owner?: string
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type,
+    clientId,
+    owner,
+    status: "running",
+    input: (redact(input) as Record<string, unknown>) ?? {},
+    updates: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  activeJobs.set(job.id, job);
+  persist(job);
+  return job;
+}
+
+// API key of a running job, its progress only goes to that key's streams
+export const jobOwner = (jobId: string) => activeJobs.get(jobId)?.owner;
+
+export function recordProgress(jobId: string, update: ProgressUpdate) {
+  const job = activeJobs.get(jobId);
+  if (!job) return;
+
+  const { jobId: _, ...entry } = update;
+  job.updates.push({ ...entry, timestamp: new Date().toISOString() });
+  if (update.status === "error") {
+    job.status = "failed";
+    job.error = update.error ?? update.message;
+    activeJobs.delete(jobId);
+  }
+  persist(job);
+}
+
+export function completeJob(jobId: string, result: JobResult) {
+  const job = activeJobs.get(jobId);
+  if (!job) return;
+
+  job.status = "completed";
+  job.result = result;
+  activeJobs.delete(jobId);
+  persist(job);
+}
+
+export function failJob(jobId: string, error: string) {
+  const job = activeJobs.get(jobId);
+  if (!job) return;
+
+  job.status = "failed";
+  job.error = error;
+  activeJobs.delete(jobId);
+  persist(job);
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  await writes.get(id);
+  return store.get(id);
+}
+
+export async function listJobs(clientId: string): Promise<Job[]> {
+  await Promise.all(writes.values());
+  return store.listByClient(clientId);
+}
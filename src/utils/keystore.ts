@@ -0,0 +1,389 @@
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import {
+  createSignerFromKeypair,
+  generateSigner,
+  Keypair,
+  Signer,
+  Transaction,
+  Umi,
+} from "@metaplex-foundation/umi";
+import {
+  fromWeb3JsKeypair,
+  fromWeb3JsPublicKey,
+} from "@metaplex-foundation/umi-web3js-adapters";
+import { Keypair as Web3JsKeypair, PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import { createNullSigner } from "./signers";
+import { asThrownError, ForbiddenError, ValidationError } from "./errors";
+import { config } from "../config";
+
+export type SignerSource = "keypairFile" | "keystoreFile" | "env";
+
+interface ManagedSigner {
+  id: string;
+  source: SignerSource;
+  keypair: Keypair;
+}
+
+/**
+ * Encrypted keystore file, the secret key is sealed with AES-256-GCM under
+ * a key derived from the passphrase with scrypt
+ */
+export interface EncryptedKeystore {
+  version: 1;
+  publicKey: string;
+  crypto: {
+    cipher: "aes-256-gcm";
+    kdf: "scrypt";
+    kdfParams: { N: number; r: number; p: number; salt: string };
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+  };
+}
+
+export interface SignerAuditEntry {
+  timestamp: string;
+  signerId: string;
+  publicKey: string;
+  ephemeral: boolean;
+  action: "signTransaction" | "signMessage";
+  jobId?: string;
+  purpose?: string;
+  messageHash: string; // sha256 of the signed message, shared by co-signers
+  signature: string;
+}
+
+interface SignerContext {
+  jobId?: string;
+  purpose?: string;
+}
+
+// Signer ids the API key behind a request may sign with
+export type SignerAccess = string[] | "all";
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+const deriveKey = (
+  passphrase: string,
+  { N, r, p, salt }: EncryptedKeystore["crypto"]["kdfParams"]
+) =>
+  scryptSync(passphrase, Buffer.from(salt, "hex"), 32, {
+    N,
+    r,
+    p,
+    maxmem: SCRYPT_MAXMEM,
+  });
+
+/**
+ * Seals a 64 byte secret key into the keystore file format
+ */
+export function encryptKeystore(
+  secretKey: Uint8Array,
+  passphrase: string
+): EncryptedKeystore {
+  const keypair = Web3JsKeypair.fromSecretKey(secretKey);
+  const salt = randomBytes(16).toString("hex");
+  const kdfParams = { ...SCRYPT_PARAMS, salt };
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, kdfParams),
+    iv
+  );
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    crypto: {
+      cipher: "aes-256-gcm",
+      kdf: "scrypt",
+      kdfParams,
+      iv: iv.toString("hex"),
+      authTag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+    },
+  };
+}
+
+export function decryptKeystore(
+  keystore: EncryptedKeystore,
+  passphrase: string
+): Uint8Array {
+  const { kdfParams, iv, authTag, ciphertext } = keystore.crypto;
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, kdfParams),
+    Buffer.from(iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "hex"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    throw new Error("Wrong passphrase or corrupted keystore");
+  }
+}
+
+const toKeypair = (secretKey: Uint8Array) =>
+  fromWeb3JsKeypair(Web3JsKeypair.fromSecretKey(secretKey));
+
+// SIGNER_<ID>_<SOURCE>, e.g. SIGNER_TREASURY_KEYPAIR_FILE=~/.config/id.json
+const SIGNER_ENV =
+  /^SIGNER_([A-Z0-9_]+?)_(KEYPAIR_FILE|KEYSTORE_FILE|SECRET_KEY)$/;
+
+function loadSignerFromEnv(
+  name: string,
+  kind: string,
+  value: string,
+  env: NodeJS.ProcessEnv
+): ManagedSigner {
+  const id = name.toLowerCase().replace(/_/g, "-");
+
+  switch (kind) {
+    case "KEYPAIR_FILE": {
+      // Solana CLI format, a JSON array of the 64 secret key bytes
+      const bytes = JSON.parse(readFileSync(value, "utf8"));
+      return {
+        id,
+        source: "keypairFile",
+        keypair: toKeypair(Uint8Array.from(bytes)),
+      };
+    }
+    case "KEYSTORE_FILE": {
+      const passphrase =
+        env[`SIGNER_${name}_PASSPHRASE`] ?? env.KEYSTORE_PASSPHRASE;
+      if (!passphrase) {
+        throw new Error(`No passphrase set for keystore signer "${id}"`);
+      }
+      const keystore: EncryptedKeystore = JSON.parse(
+        readFileSync(value, "utf8")
+      );
+      return {
+        id,
+        source: "keystoreFile",
+        keypair: toKeypair(decryptKeystore(keystore, passphrase)),
+      };
+    }
+    default:
+      return { id, source: "env", keypair: toKeypair(bs58.decode(value)) };
+  }
+}
+
+/**
+ * Named signers the server holds, loaded once at startup, plus the
+ * ephemeral signers generated for new accounts. Every signature made
+ * through it lands in the audit log.
+ */
+export class Keystore {
+  private signers = new Map<string, ManagedSigner>();
+  private auditWrites: Promise<void> = Promise.resolve();
+
+  constructor(private auditLogPath: string) {}
+
+  load(env: NodeJS.ProcessEnv = process.env) {
+    for (const [key, value] of Object.entries(env)) {
+      const match = SIGNER_ENV.exec(key);
+      if (!match || !value) continue;
+      const [, name, kind] = match;
+      try {
+        const signer = loadSignerFromEnv(name, kind, value, env);
+        this.signers.set(signer.id, signer);
+      } catch (error) {
+        throw new Error(
+          `Failed to load signer from ${key}: ${
+            asThrownError(error)?.message ?? String(error)
+          }`
+        );
+      }
+    }
+    return this.list();
+  }
+
+  list() {
+    return [...this.signers.values()].map(({ id, source, keypair }) => ({
+      id,
+      source,
+      publicKey: keypair.publicKey.toString(),
+    }));
+  }
+
+  /**
+   * A named signer for one job, throws a ValidationError for unknown ids and
+   * a ForbiddenError for signers outside `access`
+   */
+  getSigner(
+    umi: Umi,
+    signerId: string,
+    access: SignerAccess,
+    context: SignerContext = {}
+  ) {
+    if (access !== "all" && !access.includes(signerId)) {
+      throw new ForbiddenError(`API key may not sign with "${signerId}"`);
+    }
+    const managed = this.signers.get(signerId);
+    if (!managed) {
+      throw new ValidationError(`Unknown signer "${signerId}"`, [
+        { path: "signerId", message: "No signer with this id is loaded" },
+      ]);
+    }
+    return this.audited(
+      createSignerFromKeypair(umi, managed.keypair),
+      signerId,
+      false,
+      context
+    );
+  }
+
+  /**
+   * Signer for a secret key posted with the request, audited but not kept
+   */
+  fromSecretKey(umi: Umi, secretKey: Uint8Array, context: SignerContext = {}) {
+    return this.audited(
+      createSignerFromKeypair(umi, toKeypair(secretKey)),
+      "request",
+      true,
+      context
+    );
+  }
+
+  /**
+   * Fresh keypair for a new account, e.g. a mint or an asset address
+   */
+  generate(umi: Umi, context: SignerContext = {}) {
+    return this.audited(generateSigner(umi), "ephemeral", true, context);
+  }
+
+  private audited(
+    signer: Signer,
+    signerId: string,
+    ephemeral: boolean,
+    context: SignerContext
+  ): Signer {
+    const record = (
+      action: SignerAuditEntry["action"],
+      message: Uint8Array,
+      signature: Uint8Array
+    ) =>
+      this.audit({
+        timestamp: new Date().toISOString(),
+        signerId,
+        publicKey: signer.publicKey.toString(),
+        ephemeral,
+        action,
+        ...context,
+        messageHash: createHash("sha256").update(message).digest("hex"),
+        signature: bs58.encode(signature),
+      });
+
+    const recordTransaction = (transaction: Transaction) => {
+      const index = transaction.message.accounts.indexOf(signer.publicKey);
+      record(
+        "signTransaction",
+        transaction.serializedMessage,
+        transaction.signatures[index]
+      );
+      return transaction;
+    };
+
+    return {
+      publicKey: signer.publicKey,
+      signMessage: async (message) => {
+        const signature = await signer.signMessage(message);
+        record("signMessage", message, signature);
+        return signature;
+      },
+      signTransaction: async (transaction) =>
+        recordTransaction(await signer.signTransaction(transaction)),
+      signAllTransactions: async (transactions) =>
+        (await signer.signAllTransactions(transactions)).map(
+          recordTransaction
+        ),
+    };
+  }
+
+  private audit(entry: SignerAuditEntry) {
+    // Appends are chained so entries keep their order in the file
+    this.auditWrites = this.auditWrites
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.auditLogPath), { recursive: true });
+        await fs.appendFile(this.auditLogPath, `${JSON.stringify(entry)}\n`);
+      })
+      .catch((error) => {
+        console.error("Failed to write signer audit log:", error);
+      });
+  }
+}
+
+export const keystore = new Keystore(config.storage.signerAuditLog);
+
+interface WalletFields {
+  privateKey?: string;
+  signerId?: string;
+  publicKey?: string;
+}
+
+interface WalletSigner {
+  signer: Signer;
+  serverSigned: boolean; // false when the wallet still has to sign
+}
+
+/**
+ * Picks the wallet for a request: a keystore signer by `signerId`, a posted
+ * base64 `privateKey` when ALLOW_REQUEST_PRIVATE_KEYS is on, or a null
+ * signer for `publicKey` whose transaction is returned unsigned
+ */
+export function resolveWalletSigner(
+  umi: Umi,
+  { privateKey, signerId, publicKey }: WalletFields,
+  access: SignerAccess,
+  jobId?: string
+): WalletSigner {
+  const context = { jobId, purpose: "wallet" };
+
+  if (signerId) {
+    return {
+      signer: keystore.getSigner(umi, signerId, access, context),
+      serverSigned: true,
+    };
+  }
+
+  if (privateKey) {
+    if (!config.allowRequestPrivateKeys) {
+      throw new ValidationError("Posted private keys are disabled", [
+        { path: "privateKey", message: "Use a signerId instead" },
+      ]);
+    }
+    let secretKey: Uint8Array;
+    try {
+      secretKey = Web3JsKeypair.fromSecretKey(
+        Buffer.from(privateKey, "base64")
+      ).secretKey;
+    } catch (error) {
+      throw new ValidationError(
+        "Invalid private key format. Must be base64 encoded."
+      );
+    }
+    return {
+      signer: keystore.fromSecretKey(umi, secretKey, context),
+      serverSigned: true,
+    };
+  }
+
+  return {
+    signer: createNullSigner(fromWeb3JsPublicKey(new PublicKey(publicKey!))),
+    serverSigned: false,
+  };
+}
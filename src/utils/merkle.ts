@@ -0,0 +1,78 @@
+import { createHash } from "crypto";
+import bs58 from "bs58";
+
+const sha256 = (...parts: Buffer[]) =>
+  createHash("sha256").update(Buffer.concat(parts)).digest();
+
+// Sorted before hashing, so proofs need no left or right flags
+const hashPair = (a: Buffer, b: Buffer) =>
+  Buffer.compare(a, b) <= 0 ? sha256(a, b) : sha256(b, a);
+
+/**
+ * Leaf of a wallet: sha256 of its 32 byte public key
+ */
+export const merkleLeaf = (wallet: string) =>
+  sha256(Buffer.from(bs58.decode(wallet)));
+
+/**
+ * Builds the tree over a list of wallets and returns its root with the
+ * proof of every wallet, all hex encoded. A node without a sibling moves up
+ * a level unchanged.
+ */
+export function buildMerkleTree(wallets: string[]): {
+  root: string;
+  proofs: Record<string, string[]>;
+} {
+  const unique = [...new Set(wallets)];
+  if (unique.length === 0) {
+    throw new Error("Cannot build a merkle tree without wallets");
+  }
+
+  let level = unique.map(merkleLeaf);
+  // Index of each wallet's node on the current level
+  const positions = unique.map((_, index) => index);
+  const proofs: Buffer[][] = unique.map(() => []);
+
+  while (level.length > 1) {
+    positions.forEach((position, wallet) => {
+      const sibling = level[position ^ 1];
+      if (sibling) proofs[wallet].push(sibling);
+      positions[wallet] = position >> 1;
+    });
+
+    const next: Buffer[] = [];
+    for (let index = 0; index < level.length; index += 2) {
+      next.push(
+        index + 1 < level.length
+          ? hashPair(level[index], level[index + 1])
+          : level[index]
+      );
+    }
+    level = next;
+  }
+
+  return {
+    root: level[0].toString("hex"),
+    proofs: Object.fromEntries(
+      unique.map((wallet, index) => [
+        wallet,
+        proofs[index].map((node) => node.toString("hex")),
+      ])
+    ),
+  };
+}
+
+/**
+ * Checks that the wallet is a leaf of the tree with the given root
+ */
+export function verifyMerkleProof(
+  wallet: string,
+  proof: string[],
+  root: string
+): boolean {
+  const computed = proof.reduce(
+    (node, sibling) => hashPair(node, Buffer.from(sibling, "hex")),
+    merkleLeaf(wallet)
+  );
+  return computed.toString("hex") === root.toLowerCase();
+}
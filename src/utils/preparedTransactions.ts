@@ -0,0 +1,49 @@
+import { Transaction } from "@metaplex-foundation/umi";
+import type { ApiError } from "./errors";
+
+/**
+ * Told what becomes of a transaction that was handed to a wallet to sign,
+ * once the wallet sends it back through /api/submit
+ */
+export interface PreparedTransactionWatcher {
+  sent(signature: string): void;
+  confirmed(signature: string): void;
+  failed(error: ApiError, signature?: string): void;
+}
+
+interface PreparedEntry {
+  watcher: PreparedTransactionWatcher;
+  expiresAt: number;
+}
+
+// Keyed by the message, which is all that stays the same once signed. In
+// memory only, so watches are lost on restart.
+const prepared = new Map<string, PreparedEntry>();
+
+const messageKey = (transaction: Transaction) =>
+  Buffer.from(transaction.serializedMessage).toString("base64");
+
+export function watchPreparedTransaction(
+  transaction: Transaction,
+  watcher: PreparedTransactionWatcher,
+  ttlMs: number
+) {
+  const now = Date.now();
+  prepared.forEach((entry, key) => {
+    if (entry.expiresAt <= now) prepared.delete(key);
+  });
+  prepared.set(messageKey(transaction), { watcher, expiresAt: now + ttlMs });
+}
+
+/**
+ * Watcher of a submitted transaction, if it was prepared by this server.
+ * Each one is handed out once.
+ */
+export function takePreparedTransaction(
+  transaction: Transaction
+): PreparedTransactionWatcher | undefined {
+  const key = messageKey(transaction);
+  const entry = prepared.get(key);
+  prepared.delete(key);
+  return entry && entry.expiresAt > Date.now() ? entry.watcher : undefined;
+}
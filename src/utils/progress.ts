@@ -1,17 +1,47 @@
-import { sseManager } from "../middlewares/sse";
+import { sseManager, streamKey } from "../middlewares/sse";
+import { jobOwner, recordProgress } from "./jobStore";
+import type { ErrorCode } from "./errors";
 
 export interface ProgressUpdate {
-  type: "token" | "collection" | "nft";
+  jobId?: string;
+  type:
+    | "token"
+    | "collection"
+    | "nft"
+    | "asset"
+    | "transaction"
+    | "upload"
+    | "airdrop"
+    | "reveal";
   status: "started" | "progress" | "completed" | "error";
   step?: string;
   progress?: number;
   message?: string;
   error?: string;
+  code?: ErrorCode; // Set on error updates, same as the HTTP error code
+  item?: {
+    index: number;
+    status:
+      | "minted"
+      | "prepared"
+      | "sent"
+      | "confirmed"
+      | "revealed"
+      | "failed";
+    address?: string;
+    signature?: string;
+    error?: string;
+  };
 }
 
 export const sendProgressUpdate = (
   clientId: string,
   update: ProgressUpdate
 ) => {
-  sseManager.sendToClient(clientId, update);
+  // Looked up first, a job that errors stops being tracked
+  const owner = update.jobId ? jobOwner(update.jobId) : undefined;
+  if (update.jobId) {
+    recordProgress(update.jobId, update);
+  }
+  sseManager.sendToClient(streamKey(owner, clientId), update);
 };
@@ -0,0 +1,85 @@
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other ranges that never belong to a
+// public host, so client supplied URLs cannot reach the server's network
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string) => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blocked.check(mapped[1], "ipv4");
+  return blocked.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+};
+
+// Fetch through public gateways for the storage schemes Metaplex uses
+export const toHttpUrl = (uri: string) =>
+  uri
+    .replace(/^ipfs:\/\//, "https://ipfs.io/ipfs/")
+    .replace(/^ar:\/\//, "https://arweave.net/");
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to
+ * is public
+ */
+async function assertPublicUrl(url: URL) {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Unsupported URL scheme ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`${url.hostname} is not a public host`);
+  }
+}
+
+/**
+ * Fetches a client supplied http(s), ipfs:// or ar:// URI. The host is
+ * checked before the request and again for every redirect, which are
+ * followed by hand.
+ */
+export async function fetchPublicUrl(
+  uri: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let url = new URL(toHttpUrl(uri));
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    url = new URL(location, url);
+  }
+}
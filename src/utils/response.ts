@@ -0,0 +1,41 @@
+import { Response } from "express";
+import { ErrorCode, toApiError } from "./errors";
+
+export interface ApiErrorBody {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * Envelope shared by every route
+ */
+export interface ApiResponse<T = unknown> {
+  success: boolean;
+  data: T | null;
+  error: ApiErrorBody | null;
+  warnings?: string[];
+}
+
+// Middlewares collect non-fatal findings in `res.locals.warnings`
+export const sendSuccess = <T>(res: Response, data: T, status = 200) =>
+  res.status(status).json({
+    success: true,
+    data,
+    error: null,
+    ...(res.locals.warnings?.length ? { warnings: res.locals.warnings } : {}),
+  });
+
+export const sendError = (res: Response, error: unknown) => {
+  const apiError = toApiError(error);
+  const body: ApiResponse<never> = {
+    success: false,
+    data: null,
+    error: {
+      code: apiError.code,
+      message: apiError.message,
+      details: apiError.details,
+    },
+  };
+  return res.status(apiError.status).json(body);
+};
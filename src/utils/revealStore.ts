@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config, NetworkFields } from "../config";
+import { asThrownError } from "./errors";
+
+export type RevealMethod = "manifest" | "shuffle";
+// Shuffles are "committed" before the mint and "locked" once it is over.
+// "incomplete" reveals stopped with assets left, running them again resumes.
+export type RevealStatus =
+  | "committed"
+  | "locked"
+  | "planned"
+  | "revealing"
+  | "incomplete"
+  | "revealed";
+
+export interface RevealMetadata {
+  uri: string;
+  name?: string;
+}
+
+// Block whose hash is mixed into the shuffle seed, unknown when committing
+export interface RevealEntropy {
+  slot: number; // Fixed when locking, the first block from here on counts
+  blockSlot?: number; // Slot of the block that was used
+  blockhash?: string;
+}
+
+export interface RevealAssignment {
+  asset: string; // Placeholder asset
+  uri: string; // Final metadata
+  name?: string; // Final name, the placeholder one is kept if omitted
+  status: "pending" | "revealed" | "failed";
+  signature?: string;
+  error?: string;
+}
+
+export interface Reveal {
+  id: string;
+  clientId: string;
+  collection: string;
+  network: NetworkFields; // Where the collection lives, fixed at planning
+  method: RevealMethod;
+  status: RevealStatus;
+  seed?: string; // Shuffle seed, kept secret until the reveal is done
+  seedHash?: string; // sha256 of the seed, published when committing
+  metadata?: RevealMetadata[]; // Shuffled list in the order it was posted
+  metadataHash?: string; // sha256 of that list, published when committing
+  assets?: string[]; // Sorted assets the list is shuffled onto, when locking
+  entropy?: RevealEntropy;
+  assignments: RevealAssignment[];
+  createdAt: string;
+  updatedAt: string;
+  revealedAt?: string;
+}
+
+/**
+ * Storage backend for reveal plans. Like the job store it only persists and
+ * looks up whole records.
+ */
+export interface RevealStore {
+  save(reveal: Reveal): Promise<void>;
+  get(id: string): Promise<Reveal | null>;
+}
+
+/**
+ * Stores every reveal as its own JSON file in a directory
+ */
+export class FileRevealStore implements RevealStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${path.basename(id)}.json`);
+  }
+
+  async save(reveal: Reveal): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.filePath(reveal.id);
+    // Write then rename so readers never see a half-written record
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(reveal, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async get(id: string): Promise<Reveal | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), "utf8"));
+    } catch (error) {
+      if (asThrownError(error)?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Keeps reveals in process memory only, handy for tests
+ */
+export class InMemoryRevealStore implements RevealStore {
+  private reveals = new Map<string, Reveal>();
+
+  async save(reveal: Reveal): Promise<void> {
+    this.reveals.set(reveal.id, structuredClone(reveal));
+  }
+
+  async get(id: string): Promise<Reveal | null> {
+    const reveal = this.reveals.get(id);
+    return reveal ? structuredClone(reveal) : null;
+  }
+}
+
+let store: RevealStore = new FileRevealStore(config.storage.revealsDirectory);
+
+export const setRevealStore = (revealStore: RevealStore) => {
+  store = revealStore;
+};
+
+// Pending writes per reveal, chained so they land in order
+const writes = new Map<string, Promise<void>>();
+
+/**
+ * Persists a snapshot of the reveal. Resolves once it is on disk, which is
+ * what lets an interrupted reveal pick up where it stopped.
+ */
+export function saveReveal(reveal: Reveal): Promise<void> {
+  reveal.updatedAt = new Date().toISOString();
+  const snapshot = structuredClone(reveal);
+  const previous = writes.get(reveal.id) ?? Promise.resolve();
+  const next = previous.then(() => store.save(snapshot));
+  // A failed write must not block the ones after it
+  const settled = next.catch(() => undefined);
+  writes.set(reveal.id, settled);
+  settled.then(() => {
+    if (writes.get(reveal.id) === settled) writes.delete(reveal.id);
+  });
+  return next;
+}
+
+export async function getReveal(id: string): Promise<Reveal | null> {
+  await writes.get(id);
+  return store.get(id);
+}
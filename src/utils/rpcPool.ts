@@ -0,0 +1,294 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Connection } from "@solana/web3.js";
+import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import { Umi } from "@metaplex-foundation/umi";
+import { config, NetworkFields } from "../config";
+import { asThrownError, RpcUnavailableError } from "./errors";
+
+// Anything else is a read and safe to send again
+const NON_IDEMPOTENT_METHODS = new Set(["sendTransaction", "requestAirdrop"]);
+const RECENT_CALLS = 200;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const MAX_CUSTOM_POOLS = 20;
+
+export interface RpcEndpointMetrics {
+  url: string; // Query string masked, providers often put API keys there
+  healthy: boolean;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastCheckedAt?: string;
+}
+
+export interface RpcCallRecord {
+  timestamp: string;
+  requestId?: string; // X-Request-Id of the API request that made the call
+  pool: string;
+  method: string;
+  endpoint?: string; // The one that answered, none when all failed
+  attempts: number;
+  durationMs: number;
+  ok: boolean;
+}
+
+interface Endpoint extends RpcEndpointMetrics {
+  rawUrl: string;
+}
+
+// Ties RPC calls to the API request they were made for
+export const rpcRequestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+const recentCalls: RpcCallRecord[] = [];
+
+const maskUrl = (url: string) => {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname}${parsed.search ? "?***" : ""}`;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// JSON-RPC method names of a request body, batches have several
+const methodsOf = (body: unknown): string[] => {
+  try {
+    const parsed = JSON.parse(String(body));
+    return (Array.isArray(parsed) ? parsed : [parsed]).map(
+      (call) => call.method
+    );
+  } catch (error) {
+    return ["unknown"];
+  }
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// fetch wraps network failures, their code (e.g. ECONNREFUSED) is the cause's
+const describeFetchError = (error: unknown) => {
+  const err = asThrownError(error);
+  return asThrownError(err?.cause)?.code ?? err?.message;
+};
+
+/**
+ * Endpoints of one cluster behind a single cached Connection. Its fetch
+ * tries healthy endpoints first, fails over on 429, 5xx and network errors
+ * and retries reads with exponential backoff.
+ */
+export class RpcPool {
+  readonly connection: Connection;
+  private endpoints: Endpoint[];
+
+  constructor(readonly name: string, urls: string[]) {
+    this.endpoints = urls.map((url) => ({
+      rawUrl: url,
+      url: maskUrl(url),
+      healthy: true,
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+    }));
+    this.connection = new Connection(urls[0], {
+      commitment: "confirmed",
+      fetch: this.fetch,
+      // Our fetch moves on to the next endpoint instead
+      disableRetryOnRateLimit: true,
+    });
+  }
+
+  private ordered() {
+    return [
+      ...this.endpoints.filter((endpoint) => endpoint.healthy),
+      ...this.endpoints.filter((endpoint) => !endpoint.healthy),
+    ];
+  }
+
+  private markFailed(endpoint: Endpoint, error: string, status?: number) {
+    endpoint.failures += 1;
+    if (status === 429) endpoint.rateLimited += 1;
+    endpoint.healthy = false;
+    endpoint.lastError = error;
+  }
+
+  private fetch = async (
+    input: Parameters<typeof fetch>[0],
+    init?: Parameters<typeof fetch>[1]
+  ): Promise<Response> => {
+    const started = Date.now();
+    const methods = methodsOf(init?.body);
+    const retries = methods.some((method) => NON_IDEMPOTENT_METHODS.has(method))
+      ? 0
+      : config.rpc.maxRetries;
+    const errors: string[] = [];
+    let attempts = 0;
+
+    for (let round = 0; round <= retries; round += 1) {
+      if (round > 0) {
+        const delay = config.rpc.retryBaseDelayMs * 2 ** (round - 1);
+        await sleep(delay + Math.random() * delay);
+      }
+
+      for (const endpoint of this.ordered()) {
+        init?.signal?.throwIfAborted();
+        attempts += 1;
+        endpoint.requests += 1;
+        const sent = Date.now();
+        try {
+          const response = await fetch(endpoint.rawUrl, {
+            method: init?.method,
+            headers: init?.headers,
+            body: init?.body,
+            signal: init?.signal,
+          });
+          endpoint.lastLatencyMs = Date.now() - sent;
+
+          if (isRetryableStatus(response.status)) {
+            const error = `HTTP ${response.status}`;
+            this.markFailed(endpoint, error, response.status);
+            errors.push(`${endpoint.url}: ${error}`);
+            continue;
+          }
+
+          endpoint.healthy = true;
+          this.record(methods, endpoint, attempts, started, true);
+          return response;
+        } catch (error) {
+          // The caller gave up, e.g. on a timeout, which says nothing about
+          // the endpoint and leaves no reason to try the next one
+          if (init?.signal?.aborted) throw error;
+          const message = describeFetchError(error) ?? "failed";
+          this.markFailed(endpoint, message);
+          errors.push(`${endpoint.url}: ${message}`);
+        }
+      }
+    }
+
+    this.record(methods, undefined, attempts, started, false);
+    throw new RpcUnavailableError(
+      `All RPC endpoints for ${this.name} failed`,
+      { errors }
+    );
+  };
+
+  private record(
+    methods: string[],
+    endpoint: Endpoint | undefined,
+    attempts: number,
+    started: number,
+    ok: boolean
+  ) {
+    recentCalls.push({
+      timestamp: new Date().toISOString(),
+      requestId: rpcRequestContext.getStore()?.requestId,
+      pool: this.name,
+      method: methods.join(","),
+      endpoint: endpoint?.url,
+      attempts,
+      durationMs: Date.now() - started,
+      ok,
+    });
+    if (recentCalls.length > RECENT_CALLS) recentCalls.shift();
+  }
+
+  /**
+   * Asks every endpoint for its slot, the ones that answer are healthy
+   */
+  async checkHealth() {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const sent = Date.now();
+        try {
+          const response = await fetch(endpoint.rawUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getSlot" }),
+            signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+          });
+          const body = await response.json().catch(() => null);
+          endpoint.healthy = response.ok && body?.result !== undefined;
+          endpoint.lastLatencyMs = Date.now() - sent;
+          if (!endpoint.healthy) endpoint.lastError = `HTTP ${response.status}`;
+        } catch (error) {
+          endpoint.healthy = false;
+          endpoint.lastError = describeFetchError(error);
+        }
+        endpoint.lastCheckedAt = new Date().toISOString();
+      })
+    );
+  }
+
+  metrics(): RpcEndpointMetrics[] {
+    return this.endpoints.map(({ rawUrl, ...metrics }) => ({ ...metrics }));
+  }
+}
+
+const pools = new Map<string, RpcPool>();
+
+/**
+ * Pool for the network a request picked: its custom `rpcEndpoint` when one
+ * is allowed and given, otherwise its `cluster` or the default one
+ */
+export function getRpcPool({
+  cluster = config.defaultCluster,
+  rpcEndpoint,
+}: NetworkFields): RpcPool {
+  const key = rpcEndpoint ?? cluster;
+  let pool = pools.get(key);
+  if (pool) return pool;
+
+  if (rpcEndpoint) {
+    // Custom endpoints come from requests, keep only the latest few
+    const custom = [...pools.values()].filter(({ name }) =>
+      name.startsWith("custom:")
+    );
+    if (custom.length >= MAX_CUSTOM_POOLS) {
+      pools.forEach((candidate, candidateKey) => {
+        if (candidate === custom[0]) pools.delete(candidateKey);
+      });
+    }
+    pool = new RpcPool(`custom:${maskUrl(rpcEndpoint)}`, [rpcEndpoint]);
+  } else {
+    pool = new RpcPool(cluster, config.clusters[cluster]);
+  }
+  pools.set(key, pool);
+  return pool;
+}
+
+export const getConnection = (network: NetworkFields) =>
+  getRpcPool(network).connection;
+
+/**
+ * Fresh Umi on the shared connection of a network. Plugins and identities
+ * differ per request, so only the connection is cached.
+ */
+export const createRpcUmi = (network: NetworkFields): Umi =>
+  createUmi(getConnection(network));
+
+export function getRpcMetrics() {
+  return {
+    pools: [...pools.values()].map((pool) => ({
+      name: pool.name,
+      endpoints: pool.metrics(),
+    })),
+    recentCalls: [...recentCalls].reverse(),
+  };
+}
+
+/**
+ * Checks the endpoints of every pool in use, starting with the default
+ * cluster, on an interval
+ */
+export function startRpcHealthChecks() {
+  const { healthCheckIntervalMs } = config.rpc;
+  if (healthCheckIntervalMs === 0) return;
+
+  getRpcPool({});
+  const check = () => {
+    pools.forEach((pool) => {
+      pool
+        .checkHealth()
+        .catch((error) => console.error("RPC health check error:", error));
+    });
+  };
+  check();
+  setInterval(check, healthCheckIntervalMs).unref();
+}
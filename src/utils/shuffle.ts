@@ -0,0 +1,19 @@
+import { createHash } from "crypto";
+
+export const sha256Hex = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+/**
+ * Fisher-Yates shuffle driven by a seed, so anyone holding the seed can
+ * repeat it. Going from the last position down, position `i` swaps with
+ * position `sha256("<seed>:<i>") mod (i + 1)`, the hash read as a big-endian
+ * integer.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i -= 1) {
+    const j = Number(BigInt(`0x${sha256Hex(`${seed}:${i}`)}`) % BigInt(i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,57 @@
+import {
+  Signer,
+  Transaction,
+  TransactionBuilder,
+  PublicKey as UmiPublicKey,
+  Umi,
+} from "@metaplex-foundation/umi";
+
+// Create a proper null signer
+export const createNullSigner = (publicKey: UmiPublicKey): Signer => ({
+  publicKey,
+  signMessage: async () => new Uint8Array(),
+  signTransaction: async () => {
+    throw new Error("Transaction needs to be signed by the client");
+  },
+  signAllTransactions: async () => {
+    throw new Error("Transactions need to be signed by the client");
+  },
+});
+
+/**
+ * Adds the signatures of server-held signers (e.g. generated mint or asset
+ * keypairs) and leaves the remaining slots for the client wallet
+ */
+export async function partiallySignTransaction(
+  transaction: Transaction,
+  signers: Signer[]
+): Promise<Transaction> {
+  let signed = transaction;
+  for (const signer of signers) {
+    signed = await signer.signTransaction(signed);
+  }
+  return signed;
+}
+
+export const serializeTransaction = (
+  umi: Pick<Umi, "transactions">,
+  transaction: Transaction
+): string =>
+  Buffer.from(umi.transactions.serialize(transaction)).toString("base64");
+
+/**
+ * Builds the builder against a fresh blockhash, adds the server-held
+ * signatures and returns the base64 transaction for the wallet to sign
+ */
+export async function buildClientTransaction(
+  umi: Umi,
+  builder: TransactionBuilder,
+  serverSigners: Signer[] = []
+): Promise<string> {
+  const latestBlockhash = await umi.rpc.getLatestBlockhash();
+  const transaction = await partiallySignTransaction(
+    builder.setBlockhash(latestBlockhash.blockhash).build(umi),
+    serverSigners
+  );
+  return serializeTransaction(umi, transaction);
+}
@@ -0,0 +1,137 @@
+import { Connection, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { TransactionBuilder, Umi } from "@metaplex-foundation/umi";
+import { toWeb3JsTransaction } from "@metaplex-foundation/umi-web3js-adapters";
+import { ErrorCode, toApiError } from "./errors";
+
+// Base fee of one signature, used when the RPC cannot price the message
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export interface CreatedAccount {
+  address: string;
+  owner: string;
+  space: number; // Bytes of account data
+  rentLamports: number; // Lamports the account is funded with
+}
+
+export interface SimulationResult {
+  success: boolean;
+  error: { code: ErrorCode; message: string } | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  accountsCreated: CreatedAccount[];
+  estimatedCost: {
+    feeLamports: number;
+    rentLamports: number;
+    totalLamports: number;
+    totalSol: number;
+  };
+}
+
+/**
+ * Turns the error of a simulation, e.g.
+ * `{ InstructionError: [2, { Custom: 1 }] }`, into a sentence
+ */
+export function describeTransactionError(err: unknown): string {
+  if (typeof err === "string") return `Transaction failed: ${err}`;
+
+  if (
+    typeof err === "object" &&
+    err !== null &&
+    "InstructionError" in err &&
+    Array.isArray(err.InstructionError)
+  ) {
+    const [index, reason] = err.InstructionError;
+    const detail =
+      typeof reason === "string"
+        ? reason
+        : reason?.Custom !== undefined
+        ? `custom program error 0x${Number(reason.Custom).toString(16)}`
+        : JSON.stringify(reason);
+    return `Instruction ${index} failed: ${detail}`;
+  }
+  return `Transaction failed: ${JSON.stringify(err)}`;
+}
+
+/**
+ * Builds the transaction and runs it through simulateTransaction without
+ * signatures or sending. Accounts that do not exist yet but hold data after
+ * the simulation are reported as created, with the rent they are funded with.
+ */
+export async function simulateBuilder(
+  umi: Umi,
+  connection: Connection,
+  builder: TransactionBuilder
+): Promise<SimulationResult> {
+  const latestBlockhash = await umi.rpc.getLatestBlockhash();
+  const transaction = toWeb3JsTransaction(
+    builder.setBlockhash(latestBlockhash.blockhash).build(umi)
+  );
+  const { message } = transaction;
+
+  const writable = message.staticAccountKeys.filter((_, index) =>
+    message.isAccountWritable(index)
+  );
+  const before = await connection.getMultipleAccountsInfo(writable);
+  const missing = writable.filter((_, index) => before[index] === null);
+
+  const [{ value: simulation }, { value: fee }] = await Promise.all([
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: missing.map((address) => address.toBase58()),
+      },
+    }),
+    connection.getFeeForMessage(message),
+  ]);
+
+  const logs = simulation.logs ?? [];
+  const accountsCreated: CreatedAccount[] = [];
+  simulation.accounts?.forEach((account, index) => {
+    if (!account) return;
+    accountsCreated.push({
+      address: missing[index].toBase58(),
+      owner: account.owner,
+      space: Buffer.from(account.data[0], "base64").length,
+      rentLamports: account.lamports,
+    });
+  });
+
+  const feeLamports =
+    fee ?? message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE;
+  const rentLamports = accountsCreated.reduce(
+    (sum, account) => sum + account.rentLamports,
+    0
+  );
+  const totalLamports = feeLamports + rentLamports;
+
+  let error: SimulationResult["error"] = null;
+  if (simulation.err) {
+    // Same mapping as real failures, e.g. INSUFFICIENT_FUNDS from the logs
+    const apiError = toApiError(
+      Object.assign(new Error(describeTransactionError(simulation.err)), {
+        logs,
+      })
+    );
+    error = {
+      code:
+        apiError.code === "INTERNAL_ERROR" ? "SIMULATION_FAILED" : apiError.code,
+      message: describeTransactionError(simulation.err),
+    };
+  }
+
+  return {
+    success: !simulation.err,
+    error,
+    logs,
+    unitsConsumed: simulation.unitsConsumed ?? null,
+    accountsCreated,
+    estimatedCost: {
+      feeLamports,
+      rentLamports,
+      totalLamports,
+      totalSol: totalLamports / LAMPORTS_PER_SOL,
+    },
+  };
+}
@@ -0,0 +1,169 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMint2Instruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  ExtensionType,
+  getMintLen,
+  TOKEN_2022_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  Signer,
+  transactionBuilder,
+  TransactionBuilder,
+  Umi,
+} from "@metaplex-foundation/umi";
+import { findMetadataPda } from "@metaplex-foundation/mpl-token-metadata";
+import {
+  fromWeb3JsInstruction,
+  fromWeb3JsPublicKey,
+  toWeb3JsPublicKey,
+} from "@metaplex-foundation/umi-web3js-adapters";
+import { Token2022Extensions } from "../schemas/token";
+import { toBaseUnits } from "./amount";
+
+export const SPL_TOKEN_2022_PROGRAM_ID = fromWeb3JsPublicKey(
+  TOKEN_2022_PROGRAM_ID
+);
+
+export type Token2022ExtensionName = keyof Token2022Extensions;
+
+interface Token2022MintOptions {
+  mint: Signer;
+  authority: Signer; // Pays for the account and holds every authority
+  decimals: number;
+  extensions: Token2022Extensions;
+}
+
+interface Token2022Mint {
+  builder: TransactionBuilder;
+  enabled: Token2022ExtensionName[];
+}
+
+/**
+ * Builds the instructions that create a Token-2022 mint with its extensions
+ * initialized. Metaplex metadata can be added afterwards with createV1 since
+ * the mint already exists.
+ */
+export async function buildToken2022Mint(
+  umi: Umi,
+  connection: Connection,
+  { mint, authority, decimals, extensions }: Token2022MintOptions
+): Promise<Token2022Mint> {
+  const mintKey = toWeb3JsPublicKey(mint.publicKey);
+  const authorityKey = toWeb3JsPublicKey(authority.publicKey);
+  const types: ExtensionType[] = [];
+  const enabled: Token2022ExtensionName[] = [];
+  // Extensions have to be initialized before the mint itself
+  const initInstructions: TransactionInstruction[] = [];
+
+  if (extensions.transferFee) {
+    const { feeBasisPoints, maxFee } = extensions.transferFee;
+    types.push(ExtensionType.TransferFeeConfig);
+    enabled.push("transferFee");
+    initInstructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mintKey,
+        authorityKey,
+        authorityKey,
+        feeBasisPoints,
+        toBaseUnits(maxFee, decimals, "extensions.transferFee.maxFee"),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.interestBearing) {
+    types.push(ExtensionType.InterestBearingConfig);
+    enabled.push("interestBearing");
+    initInstructions.push(
+      createInitializeInterestBearingMintInstruction(
+        mintKey,
+        authorityKey,
+        extensions.interestBearing.rate,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.nonTransferable) {
+    types.push(ExtensionType.NonTransferable);
+    enabled.push("nonTransferable");
+    initInstructions.push(
+      createInitializeNonTransferableMintInstruction(
+        mintKey,
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.permanentDelegate) {
+    types.push(ExtensionType.PermanentDelegate);
+    enabled.push("permanentDelegate");
+    initInstructions.push(
+      createInitializePermanentDelegateInstruction(
+        mintKey,
+        new PublicKey(extensions.permanentDelegate),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (extensions.metadataPointer) {
+    const [metadata] = findMetadataPda(umi, { mint: mint.publicKey });
+    types.push(ExtensionType.MetadataPointer);
+    enabled.push("metadataPointer");
+    initInstructions.push(
+      createInitializeMetadataPointerInstruction(
+        mintKey,
+        authorityKey,
+        toWeb3JsPublicKey(metadata),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  const space = getMintLen(types);
+  const lamports = await connection.getMinimumBalanceForRentExemption(space);
+
+  let builder = transactionBuilder().add({
+    instruction: fromWeb3JsInstruction(
+      SystemProgram.createAccount({
+        fromPubkey: authorityKey,
+        newAccountPubkey: mintKey,
+        space,
+        lamports,
+        programId: TOKEN_2022_PROGRAM_ID,
+      })
+    ),
+    signers: [authority, mint],
+    bytesCreatedOnChain: space,
+  });
+
+  for (const instruction of [
+    ...initInstructions,
+    createInitializeMint2Instruction(
+      mintKey,
+      decimals,
+      authorityKey,
+      authorityKey,
+      TOKEN_2022_PROGRAM_ID
+    ),
+  ]) {
+    builder = builder.add({
+      instruction: fromWeb3JsInstruction(instruction),
+      signers: [],
+      bytesCreatedOnChain: 0,
+    });
+  }
+
+  return { builder, enabled };
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  createGenericFileFromJson,
+  GenericFile,
+  signerIdentity,
+  sol,
+  Umi,
+  UploaderInterface,
+} from "@metaplex-foundation/umi";
+import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import { irysUploader } from "@metaplex-foundation/umi-uploader-irys";
+import { config } from "../config";
+import { keystore } from "./keystore";
+import { createRpcUmi } from "./rpcPool";
+
+/**
+ * Builds the uploader for a Umi instance. Swap it with `setUploaderFactory`
+ * to keep uploads off Arweave, e.g. in tests.
+ */
+export type UploaderFactory = (umi: Umi) => UploaderInterface;
+
+/**
+ * Writes files into a local directory and serves them from `baseUrl`
+ */
+export const createFileSystemUploader = (
+  directory: string,
+  baseUrl: string
+): UploaderInterface => {
+  const upload = async (files: GenericFile[]) => {
+    await fs.mkdir(directory, { recursive: true });
+    return Promise.all(
+      files.map(async (file) => {
+        const name = `${file.uniqueName}${
+          file.extension ? `.${file.extension}` : ""
+        }`;
+        await fs.writeFile(path.join(directory, name), file.buffer);
+        return `${baseUrl.replace(/\/$/, "")}/${name}`;
+      })
+    );
+  };
+
+  return {
+    upload,
+    uploadJson: async (json) => {
+      const [uri] = await upload([createGenericFileFromJson(json)]);
+      return uri;
+    },
+    getUploadPrice: async () => sol(0),
+  };
+};
+
+/**
+ * Keeps uploaded files in memory under `memory://` URIs
+ */
+export const createMemoryUploader = (): UploaderInterface & {
+  files: Map<string, GenericFile>;
+} => {
+  const files = new Map<string, GenericFile>();
+  const upload = async (uploads: GenericFile[]) =>
+    uploads.map((file) => {
+      const uri = `memory://${file.uniqueName}`;
+      files.set(uri, file);
+      return uri;
+    });
+
+  return {
+    files,
+    upload,
+    uploadJson: async (json) => {
+      const [uri] = await upload([createGenericFileFromJson(json)]);
+      return uri;
+    },
+    getUploadPrice: async () => sol(0),
+  };
+};
+
+const defaultFactory = (): UploaderFactory => {
+  const { kind, directory, baseUrl, irysAddress } = config.uploader;
+  switch (kind) {
+    case "fs":
+      return () => createFileSystemUploader(directory, baseUrl);
+    case "memory":
+      return () => createMemoryUploader();
+    case "irys":
+      return (umi) => {
+        umi.use(irysUploader({ address: irysAddress }));
+        return umi.uploader;
+      };
+  }
+};
+
+let uploaderFactory: UploaderFactory = defaultFactory();
+
+export const setUploaderFactory = (factory: UploaderFactory) => {
+  uploaderFactory = factory;
+};
+
+/**
+ * Umi instance paying for uploads with the server's funded uploader wallet,
+ * the keystore signer named by UPLOADER_SIGNER_ID
+ */
+export function createUploaderUmi(jobId?: string): Umi {
+  const { rpcEndpoint, signerId } = config.uploader;
+  const umi = rpcEndpoint ? createUmi(rpcEndpoint) : createRpcUmi({});
+
+  if (signerId) {
+    // Configured by the operator, not chosen by the request
+    const payer = keystore.getSigner(umi, signerId, "all", {
+      jobId,
+      purpose: "uploader",
+    });
+    umi.use(signerIdentity(payer));
+  }
+
+  umi.uploader = uploaderFactory(umi);
+  return umi;
+}
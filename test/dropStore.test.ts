@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DropConfig,
+  findDrop,
+  InMemoryDropStore,
+  releaseDropMint,
+  reserveDropMint,
+  saveDropConfig,
+  setDropStore,
+  settleDropReservations,
+} from "../src/utils/dropStore";
+
+const COLLECTION = "Collection1111111111111111111111111111111111";
+const inAMinute = () => new Date(Date.now() + 60_000);
+
+// Every test starts from an empty store holding only this drop
+const saveDrop = (fields: Partial<DropConfig> = {}) => {
+  setDropStore(new InMemoryDropStore());
+  return saveDropConfig({
+    collection: COLLECTION,
+    network: {},
+    signerId: "drop-authority",
+    treasury: "Treasury111111111111111111111111111111111111",
+    priceLamports: "0",
+    name: "Test",
+    uri: "https://example.com/drop.json",
+    startsAt: new Date(0).toISOString(),
+    maxSupply: 3,
+    ...fields,
+  });
+};
+
+// Reserves a mint under a made-up asset address
+let assets = 0;
+const reserve = (wallet: string, caller = "key") =>
+  reserveDropMint(COLLECTION, wallet, caller, `asset-${++assets}`, inAMinute());
+
+test("reservations stop at the max supply", () => {
+  saveDrop({ maxSupply: 3 });
+
+  const reserved = ["a", "b", "c"].map((wallet) => reserve(wallet));
+  assert.deepEqual(
+    reserved.map((reservation) => reservation?.number),
+    [1, 2, 3]
+  );
+  assert.equal(reserve("d"), null);
+  assert.equal(findDrop(COLLECTION)?.reservations.length, 3);
+});
+
+test("a released reservation frees its spot but not its number", () => {
+  saveDrop({ maxSupply: 1 });
+
+  const first = reserve("a");
+  assert.ok(first);
+  releaseDropMint(COLLECTION, first.asset);
+
+  assert.equal(reserve("b")?.number, 2);
+  assert.equal(reserve("c"), null);
+});
+
+test("mints seen on chain count against the supply", () => {
+  saveDrop({ maxSupply: 2 });
+
+  const landed = reserve("a")!;
+  const dropped = reserve("b")!;
+  settleDropReservations(
+    COLLECTION,
+    [landed.asset, dropped.asset],
+    new Set([landed.asset])
+  );
+
+  const drop = findDrop(COLLECTION)!;
+  assert.equal(drop.minted, 1);
+  assert.deepEqual(drop.wallets, { a: 1 });
+  assert.ok(reserve("c"));
+  assert.equal(reserve("d"), null);
+});
+
+test("a wallet cannot pass its limit with reservations or mints", () => {
+  saveDrop({ maxSupply: 10, perWalletLimit: 2 });
+
+  const landed = reserve("a")!;
+  settleDropReservations(COLLECTION, [landed.asset], new Set([landed.asset]));
+  assert.ok(reserve("a"));
+  assert.equal(reserve("a"), null);
+  // Other wallets keep their own count
+  assert.ok(reserve("b"));
+});
+
+test("drops without a wallet limit only stop at the supply", () => {
+  saveDrop({ maxSupply: 4 });
+
+  for (let mint = 0; mint < 4; mint++) assert.ok(reserve("a"));
+  assert.equal(reserve("a"), null);
+});
+
+test("unknown drops cannot be reserved", () => {
+  setDropStore(new InMemoryDropStore());
+  assert.equal(reserve("a"), null);
+});
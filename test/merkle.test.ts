@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import bs58 from "bs58";
+import {
+  buildMerkleTree,
+  merkleLeaf,
+  verifyMerkleProof,
+} from "../src/utils/merkle";
+
+const wallet = (seed: number) => bs58.encode(Buffer.alloc(32, seed));
+
+test("every wallet's proof verifies against the root", () => {
+  // Odd and even sizes, so unpaired nodes moving up are covered
+  for (const size of [1, 2, 3, 5, 8, 13]) {
+    const wallets = Array.from({ length: size }, (_, index) =>
+      wallet(index + 1)
+    );
+    const { root, proofs } = buildMerkleTree(wallets);
+
+    wallets.forEach((address) =>
+      assert.ok(verifyMerkleProof(address, proofs[address], root))
+    );
+    assert.ok(
+      verifyMerkleProof(wallets[0], proofs[wallets[0]], root.toUpperCase())
+    );
+  }
+});
+
+test("a single wallet is its own root", () => {
+  const { root, proofs } = buildMerkleTree([wallet(1)]);
+
+  assert.equal(root, merkleLeaf(wallet(1)).toString("hex"));
+  assert.deepEqual(proofs[wallet(1)], []);
+});
+
+test("duplicate wallets are listed once", () => {
+  const { root, proofs } = buildMerkleTree([wallet(1), wallet(2), wallet(1)]);
+
+  assert.deepEqual(Object.keys(proofs), [wallet(1), wallet(2)]);
+  assert.equal(root, buildMerkleTree([wallet(1), wallet(2)]).root);
+});
+
+test("proofs do not verify for other wallets, proofs or roots", () => {
+  const wallets = [1, 2, 3, 4, 5].map(wallet);
+  const { root, proofs } = buildMerkleTree(wallets);
+  const other = buildMerkleTree([wallet(6), wallet(7)]);
+
+  assert.ok(!verifyMerkleProof(wallet(6), proofs[wallets[0]], root));
+  assert.ok(!verifyMerkleProof(wallets[0], proofs[wallets[1]], root));
+  assert.ok(!verifyMerkleProof(wallets[0], [], root));
+  assert.ok(!verifyMerkleProof(wallets[0], proofs[wallets[0]], other.root));
+
+  const tampered = [...proofs[wallets[0]]];
+  tampered[0] = tampered[0].replace(/^./, (char) =>
+    char === "0" ? "1" : "0"
+  );
+  assert.ok(!verifyMerkleProof(wallets[0], tampered, root));
+});
+
+test("a tree needs at least one wallet", () => {
+  assert.throws(() => buildMerkleTree([]), /without wallets/);
+});
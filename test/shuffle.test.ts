@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { seededShuffle } from "../src/utils/shuffle";
+
+// Expected orders were computed outside this codebase from the documented
+// rule, so a change to it breaks every reveal that was already published
+test("seededShuffle matches the known answers", () => {
+  assert.deepEqual(
+    seededShuffle([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], "seed"),
+    [8, 7, 5, 0, 3, 6, 2, 4, 1, 9]
+  );
+  assert.deepEqual(
+    seededShuffle(["a", "b", "c", "d", "e", "f", "g", "h"], "0f1e2d3c"),
+    ["e", "f", "d", "a", "b", "h", "g", "c"]
+  );
+  assert.deepEqual(seededShuffle([1, 2], "x"), [2, 1]);
+  assert.deepEqual(seededShuffle([1, 2], "y"), [1, 2]);
+});
+
+test("seededShuffle keeps every item and leaves its input alone", () => {
+  const items = Array.from({ length: 50 }, (_, index) => index);
+  const shuffled = seededShuffle(items, "another seed");
+
+  assert.deepEqual(
+    [...shuffled].sort((a, b) => a - b),
+    items
+  );
+  assert.deepEqual(
+    items,
+    Array.from({ length: 50 }, (_, index) => index)
+  );
+  assert.deepEqual(seededShuffle([], "seed"), []);
+  assert.deepEqual(seededShuffle(["only"], "seed"), ["only"]);
+});